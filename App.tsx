@@ -1,29 +1,28 @@
-import { StatusBar } from 'react-native'
-import { NativeBaseProvider } from 'native-base'
-
 import { useFonts, Roboto_400Regular, Roboto_700Bold } from '@expo-google-fonts/roboto'
 
-import { THEME } from './src/theme'
-
 import { Loading } from '@components/Loading'
 import { Routes } from '@routes/index'
 import { AuthContextProvider } from '@contexts/AuthContext'
+import { AppLockContextProvider } from '@contexts/AppLockContext'
+import { LocaleContextProvider } from '@contexts/LocaleContext'
+import { ColorSchemeContextProvider } from '@contexts/ColorSchemeContext'
+import { remindersNotificationHandlerSet } from '@services/reminders'
+
+remindersNotificationHandlerSet()
 
 export default function App() {
 
   const [fontsLoaded] = useFonts({ Roboto_400Regular, Roboto_700Bold })
 
   return (
-    <NativeBaseProvider theme={THEME}>
-      <StatusBar
-        barStyle='light-content'
-        backgroundColor='transparent'
-        translucent
-      />
-
-      <AuthContextProvider>
-        {fontsLoaded ? <Routes /> : <Loading />}
-      </AuthContextProvider>
-    </NativeBaseProvider>
+    <LocaleContextProvider>
+      <ColorSchemeContextProvider>
+        <AuthContextProvider>
+          <AppLockContextProvider>
+            {fontsLoaded ? <Routes /> : <Loading />}
+          </AppLockContextProvider>
+        </AuthContextProvider>
+      </ColorSchemeContextProvider>
+    </LocaleContextProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,49 @@
+const APP_ENV = process.env.APP_ENV ?? 'development'
+
+const API_URLS = {
+  development: process.env.API_URL_DEVELOPMENT ?? 'http://192.168.3.16:3333',
+  staging: process.env.API_URL_STAGING ?? 'https://staging.api.ignitegym.com.br',
+  production: process.env.API_URL_PRODUCTION ?? 'https://api.ignitegym.com.br'
+}
+
+const OAUTH = {
+  issuer: process.env.OAUTH_ISSUER ?? 'https://accounts.google.com',
+  clientIds: {
+    android: process.env.OAUTH_ANDROID_CLIENT_ID ?? '',
+    ios: process.env.OAUTH_IOS_CLIENT_ID ?? '',
+    web: process.env.OAUTH_WEB_CLIENT_ID ?? ''
+  }
+}
+
+const WEB_URL = process.env.WEB_URL ?? 'https://ignitegym.com.br'
+const WEB_HOST = new URL(WEB_URL).host
+
+module.exports = ({ config }) => ({
+  ...config,
+  ios: {
+    ...config.ios,
+    associatedDomains: [`applinks:${WEB_HOST}`]
+  },
+  android: {
+    ...config.android,
+    intentFilters: [
+      {
+        action: 'VIEW',
+        autoVerify: true,
+        data: ['/home', '/history', '/profile', '/exercise'].map(pathPrefix => ({
+          scheme: 'https',
+          host: WEB_HOST,
+          pathPrefix
+        })),
+        category: ['BROWSABLE', 'DEFAULT']
+      }
+    ]
+  },
+  extra: {
+    ...config.extra,
+    appEnv: APP_ENV,
+    apiUrls: API_URLS,
+    oauth: OAUTH,
+    webUrl: WEB_URL
+  }
+})
\ No newline at end of file
@@ -17,7 +17,9 @@ module.exports = function (api) {
             '@services': './src/services',
             '@hooks': './src/hooks',
             '@contexts': './src/contexts',
-            '@routes': './src/routes'
+            '@routes': './src/routes',
+            '@i18n': './src/i18n',
+            '@theme': './src/theme'
           }
         },
       ],
@@ -0,0 +1,23 @@
+jest.mock('@react-native-async-storage/async-storage', () => require('@react-native-async-storage/async-storage/jest/async-storage-mock'))
+
+jest.mock('expo-constants', () => {
+  const appConfig = require('./app.config.js')
+  const { expo } = require('./app.json')
+
+  return {
+    __esModule: true,
+    default: { expoConfig: appConfig({ config: expo }) }
+  }
+})
+
+jest.mock('expo-localization', () => ({
+  getLocales: () => [{ languageTag: 'en-US', languageCode: 'en' }]
+}))
+
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock'))
+
+jest.mock('expo-font', () => ({
+  ...jest.requireActual('expo-font'),
+  isLoaded: () => true,
+  loadAsync: jest.fn()
+}))
\ No newline at end of file
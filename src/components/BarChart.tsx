@@ -0,0 +1,80 @@
+import { useState } from 'react'
+import { Box, useTheme } from 'native-base'
+import Svg, { Rect, Text as SvgText } from 'react-native-svg'
+
+type BarChartItem = {
+  label: string
+  value: number
+}
+
+type Props = {
+  data: BarChartItem[]
+  height?: number
+}
+
+const LABEL_HEIGHT = 16
+const VALUE_HEIGHT = 14
+
+export function BarChart({ data, height = 160 }: Props) {
+  const [width, setWidth] = useState(0)
+
+  const { colors, fontSizes } = useTheme()
+
+  const maxValue = Math.max(1, ...data.map(item => item.value))
+  const slotWidth = data.length > 0 ? width / data.length : 0
+  const barWidth = Math.max(2, slotWidth * 0.6)
+  const chartHeight = height - LABEL_HEIGHT - VALUE_HEIGHT
+  const labelStep = Math.ceil(data.length / 6)
+
+  return (
+    <Box w='full' h={`${height}px`} onLayout={event => setWidth(event.nativeEvent.layout.width)}>
+      {width > 0 &&
+        <Svg width={width} height={height}>
+          {data.map((item, index) => {
+            const barHeight = (item.value / maxValue) * chartHeight
+            const x = index * slotWidth + (slotWidth - barWidth) / 2
+            const y = VALUE_HEIGHT + chartHeight - barHeight
+
+            return (
+              <Rect
+                key={`${item.label}-${index}`}
+                x={x}
+                y={y}
+                width={barWidth}
+                height={Math.max(barHeight, 1)}
+                rx={2}
+                fill={item.value > 0 ? colors.green[500] : colors.gray[500]}
+              />
+            )
+          })}
+
+          {data.map((item, index) => item.value > 0 && (
+            <SvgText
+              key={`value-${item.label}-${index}`}
+              x={index * slotWidth + slotWidth / 2}
+              y={VALUE_HEIGHT + chartHeight - (item.value / maxValue) * chartHeight - 4}
+              fill={colors.gray[200]}
+              fontSize={fontSizes.xs - 2}
+              textAnchor='middle'
+            >
+              {item.value}
+            </SvgText>
+          ))}
+
+          {data.map((item, index) => index % labelStep === 0 && (
+            <SvgText
+              key={`label-${item.label}-${index}`}
+              x={index * slotWidth + slotWidth / 2}
+              y={height - 2}
+              fill={colors.gray[300]}
+              fontSize={fontSizes.xs - 2}
+              textAnchor='middle'
+            >
+              {item.label}
+            </SvgText>
+          ))}
+        </Svg>
+      }
+    </Box>
+  )
+}
\ No newline at end of file
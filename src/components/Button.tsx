@@ -9,7 +9,9 @@ export function Button({ title, variant = 'solid', ...rest }: Props) {
   return (
     <NativeBaseButton
       w='full'
-      h={14}
+      accessibilityRole='button'
+      accessibilityLabel={title}
+      minH={14}
       bg={variant === 'outline' ? 'transparent' : 'green.700'}
       borderWidth={variant === 'outline' ? 1 : 0}
       borderColor='green.500'
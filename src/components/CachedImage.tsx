@@ -0,0 +1,46 @@
+import { useState } from 'react'
+import { ImageResizeMode } from 'react-native'
+import { Box, IBoxProps, Image, Skeleton } from 'native-base'
+
+import { ImageCacheSource } from '@services/imageCache'
+import { useCachedImage } from '@hooks/useCachedImage'
+
+type Props = IBoxProps & {
+  source: ImageCacheSource
+  alt: string
+  resizeMode?: ImageResizeMode
+}
+
+export function CachedImage({ source, alt, resizeMode = 'cover', ...rest }: Props) {
+  const [isImageLoaded, setIsImageLoaded] = useState(false)
+
+  const { uri, handleCacheMiss } = useCachedImage(source)
+
+  return (
+    <Box overflow='hidden' {...rest}>
+      {uri &&
+        <Image
+          source={{ uri }}
+          alt={alt}
+          w='full'
+          h='full'
+          resizeMode={resizeMode}
+          onLoad={() => setIsImageLoaded(true)}
+          onError={uri !== source.url ? handleCacheMiss : undefined}
+        />
+      }
+
+      {!isImageLoaded &&
+        <Skeleton
+          position='absolute'
+          top={0}
+          left={0}
+          w='full'
+          h='full'
+          startColor='gray.500'
+          endColor='gray.400'
+        />
+      }
+    </Box>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { useState } from 'react'
+import { Box, useTheme } from 'native-base'
+import Svg, { Rect } from 'react-native-svg'
+
+import { HeatmapDay } from '@utils/historyStatistics'
+
+type Props = {
+  data: HeatmapDay[]
+}
+
+const CELL_GAP = 3
+const DAYS_IN_WEEK = 7
+
+export function CalendarHeatmap({ data }: Props) {
+  const [width, setWidth] = useState(0)
+
+  const { colors } = useTheme()
+
+  const firstWeekday = data.length > 0 ? new Date(`${data[0].date}T00:00:00`).getDay() : 0
+  const weeks = Math.ceil((data.length + firstWeekday) / DAYS_IN_WEEK)
+  const cellSize = weeks > 0 ? Math.min(18, (width - CELL_GAP * (weeks - 1)) / weeks) : 0
+  const height = DAYS_IN_WEEK * (cellSize + CELL_GAP)
+  const maxCount = Math.max(1, ...data.map(day => day.count))
+
+  return (
+    <Box w='full' onLayout={event => setWidth(event.nativeEvent.layout.width)}>
+      {width > 0 &&
+        <Svg width={width} height={height}>
+          {data.map((day, index) => {
+            const position = index + firstWeekday
+            const column = Math.floor(position / DAYS_IN_WEEK)
+            const row = position % DAYS_IN_WEEK
+
+            return (
+              <Rect
+                key={day.date}
+                x={column * (cellSize + CELL_GAP)}
+                y={row * (cellSize + CELL_GAP)}
+                width={cellSize}
+                height={cellSize}
+                rx={2}
+                fill={day.count > 0 ? colors.green[500] : colors.gray[500]}
+                fillOpacity={day.count > 0 ? 0.35 + 0.65 * (day.count / maxCount) : 1}
+              />
+            )
+          })}
+        </Svg>
+      }
+    </Box>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react'
+import { Modal, Text } from 'native-base'
+
+import { useLocale } from '@hooks/useLocale'
+
+import { Input } from './Input'
+import { Button } from './Button'
+
+type Props = {
+  isOpen: boolean
+  isLoading: boolean
+  onClose: () => void
+  onConfirm: (password: string) => void
+}
+
+export function DeleteAccountModal({ isOpen, isLoading, onClose, onConfirm }: Props) {
+  const [password, setPassword] = useState('')
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  const { t } = useLocale()
+
+  function handleConfirm() {
+    if (!password) {
+      return setErrorMessage(t('form.passwordRequired'))
+    }
+
+    onConfirm(password)
+  }
+
+  useEffect(() => {
+    if (isOpen) {
+      setPassword('')
+      setErrorMessage(null)
+    }
+  }, [isOpen])
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <Modal.Content bg='gray.600'>
+        <Modal.CloseButton />
+
+        <Modal.Header bg='gray.600' borderBottomWidth={0} _text={{ color: 'gray.100', fontFamily: 'heading' }}>
+          {t('profile.deleteAccount')}
+        </Modal.Header>
+
+        <Modal.Body>
+          <Text color='gray.200' fontSize='sm' mb={4}>
+            {t('deleteAccount.description')}
+          </Text>
+
+          <Input
+            placeholder={t('form.password')}
+            secureTextEntry
+            value={password}
+            onChangeText={setPassword}
+            onSubmitEditing={handleConfirm}
+            errorMessage={errorMessage}
+          />
+
+          <Button
+            title={t('deleteAccount.submit')}
+            bg='red.500'
+            _pressed={{ bg: 'red.500', opacity: 0.8 }}
+            onPress={handleConfirm}
+            isLoading={isLoading}
+          />
+        </Modal.Body>
+      </Modal.Content>
+    </Modal>
+  )
+}
\ No newline at end of file
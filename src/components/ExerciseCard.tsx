@@ -1,38 +1,79 @@
-import { TouchableOpacity, TouchableOpacityProps } from 'react-native'
-import { HStack, Heading, Image, Text, VStack, Icon } from 'native-base'
-import { Entypo } from '@expo/vector-icons'
+import { AccessibilityActionEvent, TouchableOpacity, TouchableOpacityProps } from 'react-native'
+import { HStack, Heading, Text, VStack, Icon } from 'native-base'
+import { Entypo, MaterialIcons } from '@expo/vector-icons'
 import { ExerciseDTO } from '@dtos/ExerciseDTO'
 
-import { api } from '@services/api'
+import { exerciseThumbSource } from '@services/urls'
+import { useLocale } from '@hooks/useLocale'
+import { touchTargetHitSlop } from '@utils/accessibility'
+
+import { CachedImage } from './CachedImage'
 
 type Props = TouchableOpacityProps & {
   data: ExerciseDTO
+  isFavorite?: boolean
+  onFavoriteToggle?: () => void
 }
 
-export function ExerciseCard({ data, ...rest }: Props) {
+export function ExerciseCard({ data, isFavorite = false, onFavoriteToggle, ...rest }: Props) {
+  const { t } = useLocale()
+
+  const favoriteLabel = isFavorite ? t('exercise.favoriteRemove') : t('exercise.favoriteAdd')
+
+  function handleAccessibilityAction({ nativeEvent }: AccessibilityActionEvent) {
+    if (nativeEvent.actionName === 'favorite') onFavoriteToggle?.()
+  }
+
   return (
-    <TouchableOpacity {...rest}>
+    <TouchableOpacity
+      accessibilityRole='button'
+      accessibilityLabel={[
+        data.name,
+        t('exercise.series', { count: data.series }),
+        t('exercise.repetitions', { count: data.repetitions })
+      ].join(', ')}
+      accessibilityState={{ selected: isFavorite }}
+      accessibilityActions={onFavoriteToggle ? [{ name: 'favorite', label: favoriteLabel }] : undefined}
+      onAccessibilityAction={handleAccessibilityAction}
+      {...rest}
+    >
       <HStack bg='gray.500' alignItems='center' p={2} pr={4} rounded='md' mb={3}>
-        <Image
-          source={{ uri: `${api.defaults.baseURL}/exercise/thumb/${data.thumb}` }}
-          alt='Imagem do exercício'
+        <CachedImage
+          source={exerciseThumbSource(data.thumb, data.updated_at)}
+          alt={t('exercise.imageAlt', { name: data.name })}
           w={16}
           h={16}
           rounded='md'
           mr={4}
-          resizeMode='cover'
         />
 
         <VStack flex={1}>
-          <Heading fontSize='lg' color='white' fontFamily='heading'>
+          <Heading fontSize='lg' color='gray.100' fontFamily='heading'>
             {data.name}
           </Heading>
 
           <Text fontSize='sm' color='gray.200' mt={1} numberOfLines={2}>
-            {data.series} séries x {data.repetitions} repetições
+            {t('exercise.series', { count: data.series })} x {t('exercise.repetitions', { count: data.repetitions })}
           </Text>
         </VStack>
 
+        {onFavoriteToggle &&
+          <TouchableOpacity
+            onPress={onFavoriteToggle}
+            hitSlop={touchTargetHitSlop(20)}
+            accessibilityRole='button'
+            accessibilityLabel={favoriteLabel}
+          >
+            <Icon
+              as={MaterialIcons}
+              name={isFavorite ? 'favorite' : 'favorite-border'}
+              color={isFavorite ? 'green.500' : 'gray.300'}
+              size={5}
+              mr={2}
+            />
+          </TouchableOpacity>
+        }
+
         <Icon
           as={Entypo}
           name='chevron-right'
@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react'
+import { HStack, Heading, Modal, ScrollView, Text, VStack } from 'native-base'
+
+import { EMPTY_RANGE, ExerciseFilters, ExerciseRange, ExerciseSort } from '@utils/filterExercises'
+import { useLocale } from '@hooks/useLocale'
+import { TranslationKey } from '@i18n/index'
+
+import { Button } from './Button'
+import { Group } from './Group'
+import { Input } from './Input'
+
+type Filters = Omit<ExerciseFilters, 'search'>
+
+type Props = {
+  isOpen: boolean
+  groups: string[]
+  filters: Filters
+  onClose: () => void
+  onApply: (filters: Filters) => void
+}
+
+type RangeInputProps = {
+  label: string
+  value: ExerciseRange
+  onChange: (value: ExerciseRange) => void
+}
+
+const SORT_OPTIONS: Array<{ label: TranslationKey, value: ExerciseSort }> = [
+  { label: 'filters.sortName', value: 'name' },
+  { label: 'filters.sortSeries', value: 'series' },
+  { label: 'filters.sortRepetitions', value: 'repetitions' }
+]
+
+function parseRangeValue(value: string) {
+  const parsed = parseInt(value, 10)
+
+  return Number.isNaN(parsed) ? null : parsed
+}
+
+function RangeInput({ label, value, onChange }: RangeInputProps) {
+  const { t } = useLocale()
+
+  return (
+    <VStack>
+      <Heading color='gray.200' fontSize='sm' fontFamily='heading' mb={2}>
+        {label}
+      </Heading>
+
+      <HStack>
+        <VStack flex={1} mr={2}>
+          <Input
+            bg='gray.600'
+            placeholder={t('filters.min')}
+            keyboardType='numeric'
+            value={value.min === null ? '' : String(value.min)}
+            onChangeText={text => onChange({ ...value, min: parseRangeValue(text) })}
+          />
+        </VStack>
+
+        <VStack flex={1} ml={2}>
+          <Input
+            bg='gray.600'
+            placeholder={t('filters.max')}
+            keyboardType='numeric'
+            value={value.max === null ? '' : String(value.max)}
+            onChangeText={text => onChange({ ...value, max: parseRangeValue(text) })}
+          />
+        </VStack>
+      </HStack>
+    </VStack>
+  )
+}
+
+export function ExerciseFiltersModal({ isOpen, groups, filters, onClose, onApply }: Props) {
+  const [draft, setDraft] = useState<Filters>(filters)
+
+  const { t } = useLocale()
+
+  function handleGroupToggle(group: string) {
+    const isSelected = draft.groups.some(item => item.toLocaleUpperCase() === group.toLocaleUpperCase())
+
+    setDraft({
+      ...draft,
+      groups: isSelected
+        ? draft.groups.filter(item => item.toLocaleUpperCase() !== group.toLocaleUpperCase())
+        : [...draft.groups, group]
+    })
+  }
+
+  function handleClear() {
+    setDraft({
+      groups: draft.groups.slice(0, 1),
+      series: EMPTY_RANGE,
+      repetitions: EMPTY_RANGE,
+      sort: 'name'
+    })
+  }
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(filters)
+    }
+  }, [isOpen])
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size='full'>
+      <Modal.Content bg='gray.700' maxH='90%' mt='auto' mb={0} roundedBottom={0}>
+        <Modal.CloseButton />
+
+        <Modal.Header bg='gray.700' borderBottomWidth={0} _text={{ color: 'gray.100', fontFamily: 'heading' }}>
+          {t('filters.title')}
+        </Modal.Header>
+
+        <ScrollView px={4} showsVerticalScrollIndicator={false}>
+          <Heading color='gray.200' fontSize='sm' fontFamily='heading' mb={2}>
+            {t('filters.groups')}
+          </Heading>
+
+          <HStack flexWrap='wrap' mb={4}>
+            {groups.map(group => (
+              <Group
+                key={group}
+                name={group}
+                mb={3}
+                isActive={draft.groups.some(item => item.toLocaleUpperCase() === group.toLocaleUpperCase())}
+                onPress={() => handleGroupToggle(group)}
+              />
+            ))}
+          </HStack>
+
+          <RangeInput
+            label={t('filters.sortSeries')}
+            value={draft.series}
+            onChange={series => setDraft({ ...draft, series })}
+          />
+
+          <RangeInput
+            label={t('filters.sortRepetitions')}
+            value={draft.repetitions}
+            onChange={repetitions => setDraft({ ...draft, repetitions })}
+          />
+
+          <Heading color='gray.200' fontSize='sm' fontFamily='heading' mb={2}>
+            {t('filters.sort')}
+          </Heading>
+
+          <HStack mb={6}>
+            {SORT_OPTIONS.map(option => (
+              <Group
+                key={option.value}
+                name={t(option.label)}
+                isActive={draft.sort === option.value}
+                onPress={() => setDraft({ ...draft, sort: option.value })}
+              />
+            ))}
+          </HStack>
+
+          {draft.groups.length === 0 &&
+            <Text color='red.500' fontSize='xs' mb={3}>
+              {t('filters.groupsRequired')}
+            </Text>
+          }
+
+          <Button
+            title={t('filters.apply')}
+            mb={3}
+            isDisabled={draft.groups.length === 0}
+            onPress={() => onApply(draft)}
+          />
+
+          <Button
+            title={t('filters.clear')}
+            variant='outline'
+            mb={8}
+            onPress={handleClear}
+          />
+        </ScrollView>
+      </Modal.Content>
+    </Modal>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react'
+import { FlatList, Modal, Text } from 'native-base'
+
+import { exercisesService } from '@services/exercisesService'
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { useLocale } from '@hooks/useLocale'
+import { ExerciseDTO } from '@dtos/ExerciseDTO'
+import { storageExercisesByGroupGet, storageGroupsGet } from '@storage/storageCatalog'
+
+import { ExerciseCard } from './ExerciseCard'
+import { Group } from './Group'
+import { Loading } from './Loading'
+
+type Props = {
+  isOpen: boolean
+  onClose: () => void
+  onSelect: (exercise: ExerciseDTO) => void
+}
+
+export function ExercisePickerModal({ isOpen, onClose, onSelect }: Props) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [groups, setGroups] = useState<string[]>([])
+  const [groupSelected, setGroupSelected] = useState<string | null>(null)
+  const [exercises, setExercises] = useState<ExerciseDTO[]>([])
+
+  const { handleError } = useErrorHandler()
+  const { t } = useLocale()
+
+  async function fetchGroups() {
+    const groupsCached = await storageGroupsGet()
+
+    if (groupsCached) {
+      setGroups(groupsCached.data)
+      setGroupSelected(current => current ?? groupsCached.data[0] ?? null)
+    }
+
+    try {
+      const groupsFetched = await exercisesService.listGroups()
+      setGroups(groupsFetched)
+      setGroupSelected(current => current ?? groupsFetched[0] ?? null)
+    } catch (error) {
+      if (groupsCached) return
+
+      handleError(error, t('home.groupsError'))
+    }
+  }
+
+  async function fetchExercisesByGroup(group: string) {
+    const exercisesCached = await storageExercisesByGroupGet(group)
+
+    if (exercisesCached) {
+      setExercises(exercisesCached.data)
+    }
+
+    try {
+      setIsLoading(!exercisesCached)
+      setExercises(await exercisesService.listByGroup(group))
+    } catch (error) {
+      if (exercisesCached) return
+
+      setExercises([])
+
+      handleError(error, t('home.exercisesError'))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchGroups()
+    }
+  }, [isOpen])
+
+  useEffect(() => {
+    if (isOpen && groupSelected) {
+      fetchExercisesByGroup(groupSelected)
+    }
+  }, [isOpen, groupSelected])
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size='full'>
+      <Modal.Content bg='gray.700' maxH='90%' mt='auto' mb={0} roundedBottom={0}>
+        <Modal.CloseButton />
+
+        <Modal.Header bg='gray.700' borderBottomWidth={0} _text={{ color: 'gray.100', fontFamily: 'heading' }}>
+          {t('plan.addExercise')}
+        </Modal.Header>
+
+        <FlatList
+          data={groups}
+          keyExtractor={item => item}
+          renderItem={({ item }) => (
+            <Group
+              name={item}
+              isActive={groupSelected?.toLocaleUpperCase() === item.toLocaleUpperCase()}
+              onPress={() => setGroupSelected(item)}
+            />
+          )}
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          _contentContainerStyle={{ px: 4 }}
+          my={4}
+          maxH={10}
+          minH={10}
+        />
+
+        {isLoading ? <Loading /> :
+          <FlatList
+            data={exercises}
+            keyExtractor={item => item.id}
+            renderItem={({ item }) => (
+              <ExerciseCard
+                data={item}
+                onPress={() => onSelect(item)}
+              />
+            )}
+            px={4}
+            showsVerticalScrollIndicator={false}
+            _contentContainerStyle={{ paddingBottom: 20 }}
+            ListEmptyComponent={() => (
+              <Text color='gray.100' textAlign='center'>
+                {t('home.empty')}
+              </Text>
+            )}
+          />
+        }
+      </Modal.Content>
+    </Modal>
+  )
+}
\ No newline at end of file
@@ -9,14 +9,18 @@ export function Group({ name, isActive, ...rest }: Props) {
   return (
     <Pressable
       mr={3}
-      w={24}
-      h={10}
+      minW={24}
+      minH={12}
+      px={3}
       bg='gray.600'
       rounded='md'
       justifyContent='center'
       alignItems='center'
       overflow='hidden'
       isPressed={isActive}
+      accessibilityRole='button'
+      accessibilityLabel={name}
+      accessibilityState={{ selected: isActive }}
       _pressed={{
         borderColor: 'green.500',
         borderWidth: 1
@@ -1,25 +1,61 @@
 import { HistoryDTO } from '@dtos/HistoryDTO'
-import { HStack, Heading, Text, VStack } from 'native-base'
+import { HStack, Heading, Icon, Pressable, Text, VStack } from 'native-base'
+import { Feather } from '@expo/vector-icons'
+import { AccessibilityActionEvent } from 'react-native'
+
+import { useLocale } from '@hooks/useLocale'
 
 type Props = {
   data: HistoryDTO
+  isPending?: boolean
+  onLongPress?: () => void
 }
 
-export function HistoryCard({ data }: Props) {
+export function HistoryCard({ data, isPending = false, onLongPress }: Props) {
+  const { t } = useLocale()
+
+  function handleAccessibilityAction({ nativeEvent }: AccessibilityActionEvent) {
+    if (nativeEvent.actionName === 'longpress') onLongPress?.()
+  }
+
   return (
-    <HStack w='full' px={5} py={4} mb={3} bg='gray.600' rounded='md' alignItems='center' justifyContent='space-between'>
-      <VStack mr={5} flex={1}>
-        <Heading color='white' fontSize='md' textTransform='capitalize' fontFamily='heading' numberOfLines={1}>
-          {data.group}
-        </Heading>
-        <Text color='gray.100' fontSize='lg' numberOfLines={1}>
-          {data.name}
-        </Text>
-      </VStack>
+    <Pressable
+      onLongPress={onLongPress}
+      isDisabled={!onLongPress}
+      accessible
+      accessibilityRole={onLongPress ? 'button' : 'text'}
+      accessibilityLabel={[
+        data.group,
+        data.name,
+        data.hour,
+        isPending ? t('history.notSynced') : null
+      ].filter(Boolean).join(', ')}
+      accessibilityActions={onLongPress ? [{ name: 'longpress', label: t('history.actions') }] : undefined}
+      onAccessibilityAction={handleAccessibilityAction}
+    >
+      <HStack w='full' px={5} py={4} mb={3} bg='gray.600' rounded='md' alignItems='center' justifyContent='space-between'>
+        <VStack mr={5} flex={1}>
+          <Heading color='gray.100' fontSize='md' textTransform='capitalize' fontFamily='heading' numberOfLines={1}>
+            {data.group}
+          </Heading>
+          <Text color='gray.100' fontSize='lg' numberOfLines={1}>
+            {data.name}
+          </Text>
+
+          {isPending &&
+            <HStack alignItems='center' mt={1}>
+              <Icon as={Feather} name='upload-cloud' color='gray.300' size={3} mr={1} />
+              <Text color='gray.300' fontSize='xs'>
+                {t('history.notSynced')}
+              </Text>
+            </HStack>
+          }
+        </VStack>
 
-      <Text color='gray.300' fontSize='md'>
-        {data.hour}
-      </Text>
-    </HStack>
+        <Text color='gray.300' fontSize='md'>
+          {data.hour}
+        </Text>
+      </HStack>
+    </Pressable>
   )
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react'
+import { Modal } from 'native-base'
+
+import { useLocale } from '@hooks/useLocale'
+
+import { Input } from './Input'
+import { Button } from './Button'
+
+type Props = {
+  isOpen: boolean
+  hour: string
+  onClose: () => void
+  onConfirm: (hour: string) => void
+}
+
+const HOUR_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export function HistoryTimeModal({ isOpen, hour, onClose, onConfirm }: Props) {
+  const [value, setValue] = useState(hour)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  const { t } = useLocale()
+
+  function handleConfirm() {
+    if (!HOUR_PATTERN.test(value)) {
+      return setErrorMessage(t('form.timeInvalid'))
+    }
+
+    onConfirm(value)
+  }
+
+  useEffect(() => {
+    if (isOpen) {
+      setValue(hour)
+      setErrorMessage(null)
+    }
+  }, [isOpen])
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <Modal.Content bg='gray.600'>
+        <Modal.CloseButton />
+
+        <Modal.Header bg='gray.600' borderBottomWidth={0} _text={{ color: 'gray.100', fontFamily: 'heading' }}>
+          {t('history.editTime')}
+        </Modal.Header>
+
+        <Modal.Body>
+          <Input
+            placeholder={t('form.timePlaceholder')}
+            keyboardType='numbers-and-punctuation'
+            maxLength={5}
+            value={value}
+            onChangeText={setValue}
+            onSubmitEditing={handleConfirm}
+            errorMessage={errorMessage}
+          />
+
+          <Button
+            title={t('common.save')}
+            onPress={handleConfirm}
+          />
+        </Modal.Body>
+      </Modal.Content>
+    </Modal>
+  )
+}
\ No newline at end of file
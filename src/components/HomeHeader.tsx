@@ -1,42 +1,94 @@
-import { HStack, Heading, Text, VStack, Icon } from 'native-base'
+import { useState } from 'react'
+import { Actionsheet, HStack, Heading, Text, VStack, Icon, Pressable } from 'native-base'
 import { MaterialIcons } from '@expo/vector-icons'
 
-import { api } from '@services/api'
+import { UserDTO } from '@dtos/UserDTO'
+import { avatarUrl } from '@services/urls'
 import { useAuth } from '@hooks/useAuth'
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { useLocale } from '@hooks/useLocale'
+import { touchTargetHitSlop } from '@utils/accessibility'
 
 import defaultUserPhotoImg from '@assets/userPhotoDefault.png'
 
 import { UserPhoto } from './UserPhoto'
 import { TouchableOpacity } from 'react-native'
 
+function userPhotoSource(account: UserDTO) {
+  return account.avatar
+    ? { uri: avatarUrl(account.avatar) }
+    : defaultUserPhotoImg
+}
+
 export function HomeHeader() {
+  const [isAccountsOpen, setIsAccountsOpen] = useState(false)
+
+  const { user, accounts, signOut, switchAccount, addAccount } = useAuth()
+  const { handleError } = useErrorHandler()
+  const { t } = useLocale()
+
+  async function handleAccountSwitch(accountId: string) {
+    setIsAccountsOpen(false)
+
+    if (accountId === user.id) return
 
-  const { user, signOut } = useAuth()
+    try {
+      await switchAccount(accountId)
+    } catch (error) {
+      handleError(error, t('accounts.switchError'))
+    }
+  }
+
+  function handleAccountAdd() {
+    setIsAccountsOpen(false)
+    addAccount()
+  }
 
   return (
     <HStack bg='gray.600' pt={16} pb={5} px={8} alignItems='center'>
-      <UserPhoto
-        source={
-          user.avatar
-            ? { uri: `${api.defaults.baseURL}/avatar${user.avatar}` }
-            : defaultUserPhotoImg
-        }
-        alt='Image do usuário'
-        size={16}
-        mr={4}
-      />
-
-      <VStack flex={1}>
-        <Text color='gray.100' fontSize='md'>
-          Olá,
-        </Text>
-
-        <Heading color='gray.100' fontSize='md' fontFamily='heading'>
-          {user.name}
-        </Heading>
-      </VStack>
-
-      <TouchableOpacity onPress={signOut}>
+      <Pressable
+        flex={1}
+        flexDirection='row'
+        alignItems='center'
+        onPress={() => setIsAccountsOpen(true)}
+        accessibilityRole='button'
+        accessibilityLabel={`${t('home.greeting')} ${user.name}`}
+        accessibilityHint={t('accounts.switch')}
+      >
+        <UserPhoto
+          source={userPhotoSource(user)}
+          alt={t('profile.photoAlt', { name: user.name })}
+          size={16}
+          mr={4}
+        />
+
+        <VStack flex={1}>
+          <Text color='gray.100' fontSize='md'>
+            {t('home.greeting')}
+          </Text>
+
+          <HStack alignItems='center'>
+            <Heading color='gray.100' fontSize='md' fontFamily='heading' numberOfLines={1} flexShrink={1}>
+              {user.name}
+            </Heading>
+
+            <Icon
+              as={MaterialIcons}
+              name='expand-more'
+              color='gray.200'
+              size={5}
+              ml={1}
+            />
+          </HStack>
+        </VStack>
+      </Pressable>
+
+      <TouchableOpacity
+        onPress={signOut}
+        hitSlop={touchTargetHitSlop(28)}
+        accessibilityRole='button'
+        accessibilityLabel={t('accounts.signOut')}
+      >
         <Icon
           as={MaterialIcons}
           name='logout'
@@ -44,6 +96,61 @@ export function HomeHeader() {
           size={7}
         />
       </TouchableOpacity>
+
+      <Actionsheet isOpen={isAccountsOpen} onClose={() => setIsAccountsOpen(false)}>
+        <Actionsheet.Content bg='gray.600'>
+          <Text color='gray.100' fontSize='md' fontFamily='heading' mb={2}>
+            {t('accounts.switch')}
+          </Text>
+
+          {accounts.map(account => (
+            <Actionsheet.Item
+              key={account.id}
+              bg='gray.600'
+              _pressed={{ bg: 'gray.500' }}
+              onPress={() => handleAccountSwitch(account.id)}
+            >
+              <HStack alignItems='center' w='full'>
+                <UserPhoto
+                  source={userPhotoSource(account)}
+                  alt={t('profile.photoAlt', { name: account.name })}
+                  size={10}
+                  mr={3}
+                />
+
+                <VStack flex={1}>
+                  <Text color='gray.100' fontSize='md' fontFamily='heading' numberOfLines={1}>
+                    {account.name}
+                  </Text>
+
+                  <Text color='gray.200' fontSize='sm' numberOfLines={1}>
+                    {account.email}
+                  </Text>
+                </VStack>
+
+                {account.id === user.id &&
+                  <Icon
+                    as={MaterialIcons}
+                    name='check'
+                    color='green.500'
+                    size={6}
+                  />
+                }
+              </HStack>
+            </Actionsheet.Item>
+          ))}
+
+          <Actionsheet.Item
+            bg='gray.600'
+            _text={{ color: 'green.500' }}
+            _pressed={{ bg: 'gray.500' }}
+            startIcon={<Icon as={MaterialIcons} name='person-add' color='green.500' size={6} />}
+            onPress={handleAccountAdd}
+          >
+            {t('accounts.add')}
+          </Actionsheet.Item>
+        </Actionsheet.Content>
+      </Actionsheet>
     </HStack>
   )
 }
\ No newline at end of file
@@ -4,21 +4,24 @@ type Props = IInputProps & {
   errorMessage?: string | null
 }
 
-export function Input({ errorMessage = null, isInvalid, ...rest }: Props) {
+export function Input({ errorMessage = null, isInvalid, placeholder, accessibilityLabel = placeholder, ...rest }: Props) {
   const invalid = !!errorMessage || isInvalid
 
   return (
     <FormControl isInvalid={invalid} mb={4}>
       <NativeBaseInput
         bg='gray.700'
-        h={14}
+        minH={14}
         px={4}
         borderWidth={0}
         fontSize='md'
-        color='white'
+        color='gray.100'
         fontFamily='body'
         placeholderTextColor='gray.300'
         isInvalid={invalid}
+        placeholder={placeholder}
+        accessibilityLabel={accessibilityLabel}
+        accessibilityHint={errorMessage ?? undefined}
         _invalid={{
           borderWidth: 1,
           borderColor: 'red.500'
@@ -0,0 +1,62 @@
+import { TouchableOpacity, TouchableOpacityProps } from 'react-native'
+import { HStack, Heading, Text, VStack, Icon } from 'native-base'
+import { Entypo } from '@expo/vector-icons'
+
+import { PlanDTO } from '@dtos/PlanDTO'
+import { formatWeekdays } from '@utils/weekdays'
+import { useLocale } from '@hooks/useLocale'
+
+type Props = TouchableOpacityProps & {
+  data: PlanDTO
+  isToday: boolean
+}
+
+export function PlanCard({ data, isToday, ...rest }: Props) {
+  const { t } = useLocale()
+
+  return (
+    <TouchableOpacity
+      accessibilityRole='button'
+      accessibilityLabel={[
+        data.name,
+        t('plans.exercisesCount', { count: data.exercises.length }),
+        data.weekdays.length > 0 ? formatWeekdays(data.weekdays) : null,
+        isToday ? t('plans.today') : null
+      ].filter(Boolean).join(', ')}
+      {...rest}
+    >
+      <HStack
+        bg='gray.500'
+        alignItems='center'
+        p={4}
+        rounded='md'
+        mb={3}
+        borderWidth={isToday ? 1 : 0}
+        borderColor='green.500'
+      >
+        <VStack flex={1}>
+          <Heading fontSize='lg' color='gray.100' fontFamily='heading' numberOfLines={1}>
+            {data.name}
+          </Heading>
+
+          <Text fontSize='sm' color='gray.200' mt={1} numberOfLines={1}>
+            {t('plans.exercisesCount', { count: data.exercises.length })}
+            {data.weekdays.length > 0 ? ` · ${formatWeekdays(data.weekdays)}` : ''}
+          </Text>
+
+          {isToday &&
+            <Text fontSize='xs' color='green.500' mt={1}>
+              {t('plans.today')}
+            </Text>
+          }
+        </VStack>
+
+        <Icon
+          as={Entypo}
+          name='chevron-right'
+          color='gray.300'
+        />
+      </HStack>
+    </TouchableOpacity>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { AccessibilityActionEvent, TouchableOpacity } from 'react-native'
+import { HStack, Heading, Text, VStack, Icon } from 'native-base'
+import { Feather } from '@expo/vector-icons'
+
+import { PlanExerciseDTO } from '@dtos/PlanExerciseDTO'
+import { exerciseThumbSource } from '@services/urls'
+import { useLocale } from '@hooks/useLocale'
+import { touchTargetHitSlop } from '@utils/accessibility'
+
+import { CachedImage } from './CachedImage'
+
+type Props = {
+  data: PlanExerciseDTO
+  position: number
+  onChange: (exercise: PlanExerciseDTO) => void
+  onMoveUp?: () => void
+  onMoveDown?: () => void
+  onRemove: () => void
+}
+
+type StepperProps = {
+  label: string
+  value: number
+  onChange: (value: number) => void
+}
+
+function Stepper({ label, value, onChange }: StepperProps) {
+  const { t } = useLocale()
+
+  function handleAccessibilityAction({ nativeEvent }: AccessibilityActionEvent) {
+    if (nativeEvent.actionName === 'increment') onChange(value + 1)
+    if (nativeEvent.actionName === 'decrement') onChange(Math.max(1, value - 1))
+  }
+
+  return (
+    <HStack
+      alignItems='center'
+      mr={4}
+      accessible
+      accessibilityRole='adjustable'
+      accessibilityLabel={label}
+      accessibilityActions={[
+        { name: 'increment', label: t('plan.increase') },
+        { name: 'decrement', label: t('plan.decrease') }
+      ]}
+      onAccessibilityAction={handleAccessibilityAction}
+    >
+      <TouchableOpacity onPress={() => onChange(Math.max(1, value - 1))} hitSlop={touchTargetHitSlop(20)}>
+        <Icon as={Feather} name='minus-circle' color='gray.200' size={5} />
+      </TouchableOpacity>
+
+      <Text color='gray.100' fontSize='sm' mx={2}>
+        {label}
+      </Text>
+
+      <TouchableOpacity onPress={() => onChange(value + 1)} hitSlop={touchTargetHitSlop(20)}>
+        <Icon as={Feather} name='plus-circle' color='gray.200' size={5} />
+      </TouchableOpacity>
+    </HStack>
+  )
+}
+
+export function PlanExerciseCard({ data, position, onChange, onMoveUp, onMoveDown, onRemove }: Props) {
+  const { t } = useLocale()
+
+  return (
+    <VStack bg='gray.500' p={2} pr={4} rounded='md' mb={3}>
+      <HStack alignItems='center'>
+        <CachedImage
+          source={exerciseThumbSource(data.thumb, data.updated_at)}
+          alt={t('exercise.imageAlt', { name: data.name })}
+          w={12}
+          h={12}
+          rounded='md'
+          mr={4}
+        />
+
+        <VStack flex={1}>
+          <Heading fontSize='md' color='gray.100' fontFamily='heading' numberOfLines={1}>
+            {position}. {data.name}
+          </Heading>
+
+          <Text fontSize='xs' color='gray.200' textTransform='capitalize'>
+            {data.group}
+          </Text>
+        </VStack>
+
+        <TouchableOpacity
+          onPress={onMoveUp}
+          disabled={!onMoveUp}
+          hitSlop={touchTargetHitSlop(20)}
+          accessibilityRole='button'
+          accessibilityLabel={t('plan.moveUp')}
+          accessibilityState={{ disabled: !onMoveUp }}
+        >
+          <Icon as={Feather} name='arrow-up' color={onMoveUp ? 'gray.200' : 'gray.400'} size={5} ml={2} />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={onMoveDown}
+          disabled={!onMoveDown}
+          hitSlop={touchTargetHitSlop(20)}
+          accessibilityRole='button'
+          accessibilityLabel={t('plan.moveDown')}
+          accessibilityState={{ disabled: !onMoveDown }}
+        >
+          <Icon as={Feather} name='arrow-down' color={onMoveDown ? 'gray.200' : 'gray.400'} size={5} ml={2} />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={onRemove}
+          hitSlop={touchTargetHitSlop(20)}
+          accessibilityRole='button'
+          accessibilityLabel={t('plan.removeExercise')}
+        >
+          <Icon as={Feather} name='trash-2' color='red.500' size={5} ml={2} />
+        </TouchableOpacity>
+      </HStack>
+
+      <HStack mt={3} ml={2}>
+        <Stepper
+          label={t('exercise.series', { count: data.series })}
+          value={data.series}
+          onChange={series => onChange({ ...data, series })}
+        />
+
+        <Stepper
+          label={t('exercise.repetitions', { count: data.repetitions })}
+          value={data.repetitions}
+          onChange={repetitions => onChange({ ...data, repetitions })}
+        />
+      </HStack>
+    </VStack>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react'
+import { FlatList, HStack, Heading, Switch, Text, VStack } from 'native-base'
+
+import { plansService } from '@services/plansService'
+import { remindersSave } from '@services/reminders'
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { useLocale } from '@hooks/useLocale'
+import { useToast } from '@hooks/useToast'
+import { WEEKDAYS, weekdayName } from '@utils/weekdays'
+import { StorageRemindersProps, storageRemindersGet } from '@storage/storageReminders'
+
+import { Button } from './Button'
+import { Group } from './Group'
+import { Input } from './Input'
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+const INACTIVITY_OPTIONS = [null, 2, 3, 5, 7]
+
+export function ReminderSettings() {
+  const [reminders, setReminders] = useState<StorageRemindersProps | null>(null)
+  const [timeErrorMessage, setTimeErrorMessage] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const toast = useToast()
+  const { handleError } = useErrorHandler()
+  const { t } = useLocale()
+
+  function handleWeekdayToggle(weekday: number) {
+    setReminders(current => current && {
+      ...current,
+      weekdays: current.weekdays.includes(weekday)
+        ? current.weekdays.filter(item => item !== weekday)
+        : [...current.weekdays, weekday]
+    })
+  }
+
+  async function handleRemindersSave() {
+    if (!reminders) return
+
+    if (reminders.isEnabled && !TIME_PATTERN.test(reminders.time)) {
+      return setTimeErrorMessage(t('form.timeInvalid'))
+    }
+
+    setTimeErrorMessage(null)
+
+    try {
+      setIsSaving(true)
+
+      const plans = reminders.isEnabled ? await plansService.list().catch(() => []) : []
+      await remindersSave(reminders, plans)
+
+      toast.show({
+        title: reminders.isEnabled ? t('reminders.scheduled') : t('reminders.disabled'),
+        placement: 'top',
+        bgColor: 'green.500'
+      })
+    } catch (error) {
+      handleError(error, t('reminders.saveError'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  useEffect(() => {
+    storageRemindersGet().then(setReminders)
+  }, [])
+
+  if (!reminders) {
+    return null
+  }
+
+  return (
+    <VStack w='full'>
+      <Heading color='gray.200' fontSize='md' mb={2} mt={12}>
+        {t('reminders.channelName')}
+      </Heading>
+
+      <HStack w='full' alignItems='center' justifyContent='space-between' bg='gray.600' rounded='md' px={4} py={3}>
+        <Text color='gray.100' fontSize='sm' flex={1} mr={4}>
+          {t('reminders.enable')}
+        </Text>
+
+        <Switch
+          isChecked={reminders.isEnabled}
+          onToggle={() => setReminders({ ...reminders, isEnabled: !reminders.isEnabled })}
+          onTrackColor='green.500'
+        />
+      </HStack>
+
+      {reminders.isEnabled &&
+        <VStack mt={4}>
+          <Text color='gray.200' fontSize='xs' mb={2}>
+            {t('reminders.weekdays')}
+          </Text>
+
+          <FlatList
+            data={WEEKDAYS}
+            keyExtractor={item => String(item)}
+            renderItem={({ item }) => (
+              <Group
+                name={weekdayName(item)}
+                minW={16}
+                isActive={reminders.weekdays.includes(item)}
+                onPress={() => handleWeekdayToggle(item)}
+              />
+            )}
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            mb={4}
+          />
+
+          <Text color='gray.200' fontSize='xs' mb={2}>
+            {t('reminders.time')}
+          </Text>
+
+          <Input
+            bg='gray.600'
+            placeholder={t('form.timePlaceholder')}
+            keyboardType='numbers-and-punctuation'
+            maxLength={5}
+            value={reminders.time}
+            onChangeText={time => setReminders({ ...reminders, time })}
+            errorMessage={timeErrorMessage}
+          />
+
+          <Text color='gray.200' fontSize='xs' mb={2}>
+            {t('reminders.inactivity')}
+          </Text>
+
+          <FlatList
+            data={INACTIVITY_OPTIONS}
+            keyExtractor={item => String(item)}
+            renderItem={({ item }) => (
+              <Group
+                name={item ? t('reminders.inactivityDays', { count: item }) : t('reminders.inactivityOff')}
+                isActive={reminders.inactivityDays === item}
+                onPress={() => setReminders({ ...reminders, inactivityDays: item })}
+              />
+            )}
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            mb={4}
+          />
+        </VStack>
+      }
+
+      <Button
+        title={t('reminders.save')}
+        variant='outline'
+        mt={4}
+        onPress={handleRemindersSave}
+        isLoading={isSaving}
+      />
+    </VStack>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { Modal, Text } from 'native-base'
+
+import { useLocale } from '@hooks/useLocale'
+
+import { Button } from './Button'
+
+type Props = {
+  isOpen: boolean
+  isLoading: boolean
+  planName: string
+  onClose: () => void
+  onConfirm: () => void
+}
+
+export function RemovePlanModal({ isOpen, isLoading, planName, onClose, onConfirm }: Props) {
+  const { t } = useLocale()
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <Modal.Content bg='gray.600'>
+        <Modal.CloseButton />
+
+        <Modal.Header bg='gray.600' borderBottomWidth={0} _text={{ color: 'gray.100', fontFamily: 'heading' }}>
+          {t('plan.remove')}
+        </Modal.Header>
+
+        <Modal.Body>
+          <Text color='gray.200' fontSize='sm' mb={6}>
+            {t('plan.removeDescription', { name: planName })}
+          </Text>
+
+          <Button
+            title={t('plan.removeSubmit')}
+            bg='red.500'
+            _pressed={{ bg: 'red.500', opacity: 0.8 }}
+            mb={3}
+            onPress={onConfirm}
+            isLoading={isLoading}
+          />
+
+          <Button
+            title={t('common.cancel')}
+            variant='outline'
+            onPress={onClose}
+            isDisabled={isLoading}
+          />
+        </Modal.Body>
+      </Modal.Content>
+    </Modal>
+  )
+}
\ No newline at end of file
@@ -1,15 +1,18 @@
-import { Center, Heading } from 'native-base'
+import { Center, Heading, Pressable } from 'native-base'
 
 type Props = {
   title: string
+  onLongPress?: () => void
 }
 
-export function ScreenHeader({ title }: Props) {
+export function ScreenHeader({ title, onLongPress }: Props) {
   return (
-    <Center bg='gray.600' pb={6} pt={16}>
-      <Heading color='gray.100' fontSize='xl' fontFamily='heading'>
-        {title}
-      </Heading>
-    </Center>
+    <Pressable onLongPress={onLongPress} isDisabled={!onLongPress}>
+      <Center bg='gray.600' pb={6} pt={16}>
+        <Heading color='gray.100' fontSize='xl' fontFamily='heading' accessibilityRole='header'>
+          {title}
+        </Heading>
+      </Center>
+    </Pressable>
   )
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { HStack, Icon, Text } from 'native-base'
+import { Feather } from '@expo/vector-icons'
+
+import { useLocale } from '@hooks/useLocale'
+
+type Props = {
+  isOffline: boolean
+  syncedAt: string | null
+}
+
+export function SyncStatus({ isOffline, syncedAt }: Props) {
+  const { t, formatDate } = useLocale()
+
+  function formatSyncedAt(syncedAt: string) {
+    return formatDate(new Date(syncedAt), { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+  }
+
+  return (
+    <HStack bg='gray.500' px={8} py={2} alignItems='center'>
+      <Icon
+        as={Feather}
+        name={isOffline ? 'wifi-off' : 'alert-circle'}
+        color='gray.200'
+        size={4}
+        mr={2}
+      />
+
+      <Text color='gray.200' fontSize='xs' flex={1}>
+        {isOffline ? t('syncStatus.offline') : t('syncStatus.updateFailed')}
+        {syncedAt ? ` ${t('syncStatus.syncedAt', { date: formatSyncedAt(syncedAt) })}` : ''}
+      </Text>
+    </HStack>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { HStack, Pressable, Text } from 'native-base'
+
+import { useLocale } from '@hooks/useLocale'
+import { touchTargetHitSlop } from '@utils/accessibility'
+
+type Props = {
+  title: string
+  onUndo: () => void
+}
+
+export function UndoToast({ title, onUndo }: Props) {
+  const { t } = useLocale()
+
+  return (
+    <HStack bg='gray.500' rounded='md' px={4} py={3} alignItems='center' mx={4} accessibilityLiveRegion='polite'>
+      <Text color='gray.100' fontSize='sm' flex={1} mr={4}>
+        {title}
+      </Text>
+
+      <Pressable
+        onPress={onUndo}
+        hitSlop={touchTargetHitSlop(20)}
+        accessibilityRole='button'
+        accessibilityLabel={t('common.undo')}
+      >
+        <Text color='green.500' fontSize='sm' fontWeight='bold' textTransform='uppercase'>
+          {t('common.undo')}
+        </Text>
+      </Pressable>
+    </HStack>
+  )
+}
\ No newline at end of file
@@ -1,11 +1,12 @@
-import { Image, IImageProps } from 'native-base'
+import { Box, Center, Image, IImageProps, Text } from 'native-base'
 
 type Props = IImageProps & {
   size: number
+  progress?: number
 }
 
-export function UserPhoto({ size, ...rest }: Props) {
-  return (
+export function UserPhoto({ size, progress, ...rest }: Props) {
+  const photo = (
     <Image
       w={size}
       h={size}
@@ -16,4 +17,26 @@ export function UserPhoto({ size, ...rest }: Props) {
       {...rest}
     />
   )
+
+  if (progress === undefined) {
+    return photo
+  }
+
+  const percentage = Math.round(progress * 100)
+
+  return (
+    <Box w={size} h={size}>
+      {photo}
+
+      <Box position='absolute' top={0} right={0} bottom={0} left={0} rounded='full' overflow='hidden' bg='gray.700:alpha.60'>
+        <Box position='absolute' right={0} bottom={0} left={0} h={`${percentage}%`} bg='green.500:alpha.40' />
+
+        <Center flex={1}>
+          <Text color='gray.100' fontSize='lg' fontFamily='heading'>
+            {percentage}%
+          </Text>
+        </Center>
+      </Box>
+    </Box>
+  )
 }
\ No newline at end of file
@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react'
+import { FlatList, HStack, Heading, Text, VStack } from 'native-base'
+import * as Haptics from 'expo-haptics'
+
+import { ExerciseDTO } from '@dtos/ExerciseDTO'
+import { ExerciseSetDTO } from '@dtos/ExerciseSetDTO'
+import { useCountdown } from '@hooks/useCountdown'
+import { useLocale } from '@hooks/useLocale'
+import { storageRestDurationGet, storageRestDurationSave } from '@storage/storageRestDuration'
+
+import { Button } from './Button'
+import { Group } from './Group'
+import { Input } from './Input'
+
+const REST_DURATION_OPTIONS = [30, 60, 90, 120]
+
+type Props = {
+  exercise: ExerciseDTO
+  isFinishing: boolean
+  onFinish: (sets: ExerciseSetDTO[]) => void
+  onCancel: () => void
+}
+
+function formatSeconds(seconds: number) {
+  const minutes = Math.floor(seconds / 60)
+
+  return `${String(minutes).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+export function WorkoutSession({ exercise, isFinishing, onFinish, onCancel }: Props) {
+  const { t } = useLocale()
+
+  const [sets, setSets] = useState<ExerciseSetDTO[]>([])
+  const [repetitions, setRepetitions] = useState(String(exercise.repetitions))
+  const [load, setLoad] = useState('')
+  const [restDuration, setRestDuration] = useState(60)
+
+  const countdown = useCountdown({
+    onFinish: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success)
+    }
+  })
+
+  const currentSet = sets.length + 1
+  const isLastSet = currentSet >= exercise.series
+
+  async function handleRestDurationSelect(seconds: number) {
+    setRestDuration(seconds)
+    await storageRestDurationSave(seconds)
+  }
+
+  function handleSetComplete() {
+    const setsUpdated = [...sets, {
+      repetitions: Number(repetitions) || 0,
+      load: Number(load.replace(',', '.')) || 0
+    }]
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium)
+
+    if (isLastSet) {
+      onFinish(setsUpdated)
+      return
+    }
+
+    setSets(setsUpdated)
+    countdown.start(restDuration)
+  }
+
+  useEffect(() => {
+    storageRestDurationGet().then(setRestDuration)
+  }, [])
+
+  return (
+    <VStack>
+      <HStack justifyContent='space-between' alignItems='center' mb={4}>
+        <Heading color='gray.100' fontSize='md' fontFamily='heading'>
+          {t('workoutSession.currentSet', { set: Math.min(currentSet, exercise.series), total: exercise.series })}
+        </Heading>
+
+        <Text color='gray.200' fontSize='sm'>
+          {t('workoutSession.plannedRepetitions', { count: exercise.repetitions })}
+        </Text>
+      </HStack>
+
+      {sets.map((set, index) => (
+        <HStack key={index} justifyContent='space-between' mb={2}>
+          <Text color='gray.200' fontSize='sm'>
+            {t('workoutSession.set', { set: index + 1 })}
+          </Text>
+
+          <Text color='gray.100' fontSize='sm'>
+            {t('exercise.repetitions', { count: set.repetitions })} · {set.load} kg
+          </Text>
+        </HStack>
+      ))}
+
+      {countdown.isRunning ?
+        <VStack alignItems='center' my={4}>
+          <Text color='gray.200' fontSize='sm'>
+            {t('workoutSession.rest')}
+          </Text>
+
+          <Heading color='green.500' fontSize='4xl' fontFamily='heading' my={2}>
+            {formatSeconds(countdown.secondsLeft)}
+          </Heading>
+
+          <Button
+            title={t('workoutSession.skipRest')}
+            variant='outline'
+            onPress={countdown.stop}
+          />
+        </VStack>
+        :
+        <VStack mt={2}>
+          <HStack>
+            <VStack flex={1} mr={2}>
+              <Text color='gray.200' fontSize='xs' mb={1}>
+                {t('workoutSession.repetitions')}
+              </Text>
+
+              <Input
+                keyboardType='numeric'
+                value={repetitions}
+                onChangeText={setRepetitions}
+              />
+            </VStack>
+
+            <VStack flex={1} ml={2}>
+              <Text color='gray.200' fontSize='xs' mb={1}>
+                {t('workoutSession.load')}
+              </Text>
+
+              <Input
+                keyboardType='decimal-pad'
+                placeholder='0'
+                value={load}
+                onChangeText={setLoad}
+              />
+            </VStack>
+          </HStack>
+
+          <Button
+            title={isLastSet ? t('workoutSession.finishExercise') : t('workoutSession.finishSet')}
+            onPress={handleSetComplete}
+            isLoading={isFinishing}
+          />
+        </VStack>
+      }
+
+      <Text color='gray.200' fontSize='xs' mt={6} mb={2}>
+        {t('workoutSession.restDuration')}
+      </Text>
+
+      <FlatList
+        data={REST_DURATION_OPTIONS}
+        keyExtractor={item => String(item)}
+        renderItem={({ item }) => (
+          <Group
+            name={`${item}s`}
+            isActive={restDuration === item}
+            onPress={() => handleRestDurationSelect(item)}
+          />
+        )}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        mb={4}
+      />
+
+      <Button
+        title={t('workoutSession.cancel')}
+        variant='outline'
+        onPress={onCancel}
+        isDisabled={isFinishing}
+      />
+    </VStack>
+  )
+}
\ No newline at end of file
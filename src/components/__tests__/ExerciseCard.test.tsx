@@ -0,0 +1,57 @@
+import { fireEvent, screen } from '@testing-library/react-native'
+
+import { ExerciseCard } from '@components/ExerciseCard'
+import { ExerciseDTO } from '@dtos/ExerciseDTO'
+
+import { renderWithProviders } from '../../../test/render'
+
+jest.mock('@hooks/useCachedImage', () => ({
+  useCachedImage: () => ({ uri: null, handleCacheMiss: jest.fn() })
+}))
+
+const EXERCISE: ExerciseDTO = {
+  id: '1',
+  name: 'Remada unilateral',
+  group: 'costas',
+  series: 3,
+  repetitions: 12,
+  demo: 'demo.gif',
+  thumb: 'thumb.png',
+  updated_at: '2026-10-19T10:00:00.000Z'
+}
+
+describe('ExerciseCard', () => {
+  it('labels the card with the exercise name, sets and reps', () => {
+    renderWithProviders(<ExerciseCard data={EXERCISE} />)
+
+    const card = screen.getByRole('button', { name: 'Remada unilateral, 3 sets, 12 reps' })
+
+    expect(card.props.accessibilityState).toEqual(expect.objectContaining({ selected: false }))
+  })
+
+  it('labels the favorite toggle according to the favorite state', () => {
+    const onFavoriteToggle = jest.fn()
+
+    renderWithProviders(<ExerciseCard data={EXERCISE} isFavorite onFavoriteToggle={onFavoriteToggle} />)
+
+    expect(screen.getByRole('button', { name: 'Remada unilateral, 3 sets, 12 reps' }).props.accessibilityState).toEqual(expect.objectContaining({ selected: true }))
+
+    fireEvent.press(screen.getByLabelText('Remove from favorites'))
+
+    expect(onFavoriteToggle).toHaveBeenCalledTimes(1)
+  })
+
+  it('offers the favorite toggle as an accessibility action on the card', () => {
+    const onFavoriteToggle = jest.fn()
+
+    renderWithProviders(<ExerciseCard data={EXERCISE} onFavoriteToggle={onFavoriteToggle} />)
+
+    const card = screen.getByRole('button', { name: 'Remada unilateral, 3 sets, 12 reps' })
+
+    expect(card.props.accessibilityActions).toEqual([{ name: 'favorite', label: 'Add to favorites' }])
+
+    fireEvent(card, 'accessibilityAction', { nativeEvent: { actionName: 'favorite' } })
+
+    expect(onFavoriteToggle).toHaveBeenCalledTimes(1)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { fireEvent, screen } from '@testing-library/react-native'
+
+import { Group } from '@components/Group'
+
+import { renderWithProviders } from '../../../test/render'
+
+describe('Group', () => {
+  it('exposes the group name as a button with its selected state', () => {
+    const onPress = jest.fn()
+
+    renderWithProviders(<Group name='costas' isActive onPress={onPress} />)
+
+    const button = screen.getByRole('button', { name: 'costas' })
+
+    expect(button.props.accessibilityState).toEqual(expect.objectContaining({ selected: true }))
+
+    fireEvent.press(button)
+
+    expect(onPress).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports an inactive group as not selected', () => {
+    renderWithProviders(<Group name='ombros' isActive={false} />)
+
+    expect(screen.getByRole('button', { name: 'ombros' }).props.accessibilityState).toEqual(expect.objectContaining({ selected: false }))
+  })
+})
\ No newline at end of file
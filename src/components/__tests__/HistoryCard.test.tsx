@@ -0,0 +1,39 @@
+import { fireEvent, screen } from '@testing-library/react-native'
+
+import { HistoryCard } from '@components/HistoryCard'
+import { HistoryDTO } from '@dtos/HistoryDTO'
+
+import { renderWithProviders } from '../../../test/render'
+
+const HISTORY: HistoryDTO = {
+  id: '1',
+  name: 'Puxada frontal',
+  group: 'costas',
+  hour: '08:30',
+  created_at: '2026-10-19T08:30:00.000Z'
+}
+
+describe('HistoryCard', () => {
+  it('reads the entry as text when it has no actions', () => {
+    renderWithProviders(<HistoryCard data={HISTORY} />)
+
+    const card = screen.getByLabelText('costas, Puxada frontal, 08:30')
+
+    expect(card.props.accessibilityRole).toBe('text')
+    expect(card.props.accessibilityActions).toBeUndefined()
+  })
+
+  it('includes the sync state and exposes the long press as an action', () => {
+    const onLongPress = jest.fn()
+
+    renderWithProviders(<HistoryCard data={HISTORY} isPending onLongPress={onLongPress} />)
+
+    const card = screen.getByRole('button', { name: 'costas, Puxada frontal, 08:30, Not synced yet' })
+
+    expect(card.props.accessibilityActions).toEqual([{ name: 'longpress', label: 'Edit or delete' }])
+
+    fireEvent(card, 'accessibilityAction', { nativeEvent: { actionName: 'longpress' } })
+
+    expect(onLongPress).toHaveBeenCalledTimes(1)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { fireEvent, screen } from '@testing-library/react-native'
+
+import { HomeHeader } from '@components/HomeHeader'
+import { AuthContext, AuthContextDataProps } from '@contexts/AuthContext'
+
+import { renderWithProviders } from '../../../test/render'
+
+const USER = { id: '1', name: 'Maria', email: 'maria@email.com', avatar: '' }
+
+function renderHomeHeader(auth: Partial<AuthContextDataProps> = {}) {
+  const value = {
+    user: USER,
+    accounts: [USER],
+    signOut: jest.fn(),
+    switchAccount: jest.fn(),
+    addAccount: jest.fn(),
+    ...auth
+  } as AuthContextDataProps
+
+  renderWithProviders(
+    <AuthContext.Provider value={value}>
+      <HomeHeader />
+    </AuthContext.Provider>
+  )
+
+  return value
+}
+
+describe('HomeHeader', () => {
+  it('labels the sign out button', () => {
+    const { signOut } = renderHomeHeader()
+
+    const button = screen.getByLabelText('Sign out')
+
+    expect(button.props.accessibilityRole).toBe('button')
+
+    fireEvent.press(button)
+
+    expect(signOut).toHaveBeenCalledTimes(1)
+  })
+
+  it('labels the account switcher with the greeting and a hint', () => {
+    renderHomeHeader()
+
+    const button = screen.getByRole('button', { name: 'Hello, Maria' })
+
+    expect(button.props.accessibilityHint).toBe('Switch account')
+  })
+})
\ No newline at end of file
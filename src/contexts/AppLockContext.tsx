@@ -0,0 +1,151 @@
+import { ReactNode, createContext, useEffect, useRef, useState } from 'react'
+import { AppState, AppStateStatus } from 'react-native'
+import * as LocalAuthentication from 'expo-local-authentication'
+
+import { useAuth } from '@hooks/useAuth'
+import { AppError } from '@utils/AppError'
+import { t } from '@i18n/index'
+import { StorageAppLockProps, storageAppLockGet, storageAppLockSave } from '@storage/storageAppLock'
+
+export const MAX_UNLOCK_ATTEMPTS = 3
+const CANCELED_AUTHENTICATION_ERRORS = ['user_cancel', 'system_cancel', 'app_cancel']
+
+export type AppLockContextDataProps = {
+  appLock: StorageAppLockProps
+  isLocked: boolean
+  isLoadingAppLock: boolean
+  remainingAttempts: number
+  unlock: () => Promise<void>
+  updateAppLock: (appLockUpdated: StorageAppLockProps) => Promise<void>
+}
+
+type AppLockContextProviderProps = {
+  children: ReactNode
+}
+
+export const AppLockContext = createContext<AppLockContextDataProps>({} as AppLockContextDataProps)
+
+export function AppLockContextProvider({ children }: AppLockContextProviderProps) {
+  const [appLock, setAppLock] = useState<StorageAppLockProps | null>(null)
+  const [isLocked, setIsLocked] = useState(false)
+  const [isLoadingAppLock, setIsLoadingAppLock] = useState(true)
+  const [failedAttempts, setFailedAttempts] = useState(0)
+
+  const backgroundAt = useRef<number | null>(null)
+  const isAuthenticating = useRef(false)
+
+  const { user, signOut, isLoadingUserStorageData } = useAuth()
+
+  async function authenticate() {
+    try {
+      isAuthenticating.current = true
+
+      return await LocalAuthentication.authenticateAsync({
+        promptMessage: t('appLock.promptMessage'),
+        cancelLabel: t('common.cancel'),
+        fallbackLabel: t('appLock.fallbackLabel')
+      })
+    } finally {
+      isAuthenticating.current = false
+    }
+  }
+
+  async function unlock() {
+    const result = await authenticate()
+
+    if (result.success) {
+      setFailedAttempts(0)
+      setIsLocked(false)
+      return
+    }
+
+    if (CANCELED_AUTHENTICATION_ERRORS.includes(result.error)) return
+
+    const attempts = failedAttempts + 1
+    setFailedAttempts(attempts)
+
+    if (attempts >= MAX_UNLOCK_ATTEMPTS) {
+      await signOut()
+    }
+  }
+
+  async function updateAppLock(appLockUpdated: StorageAppLockProps) {
+    if (appLockUpdated.isEnabled && !appLock?.isEnabled) {
+      const securityLevel = await LocalAuthentication.getEnrolledLevelAsync()
+
+      if (securityLevel === LocalAuthentication.SecurityLevel.NONE) {
+        throw new AppError(t('appLock.notEnrolled'))
+      }
+
+      const result = await authenticate()
+
+      if (!result.success) {
+        throw new AppError(t('appLock.authenticationFailed'))
+      }
+    }
+
+    await storageAppLockSave(appLockUpdated)
+    setAppLock(appLockUpdated)
+  }
+
+  function handleAppStateChange(status: AppStateStatus) {
+    if (isAuthenticating.current) return
+
+    if (status === 'background') {
+      backgroundAt.current = Date.now()
+      return
+    }
+
+    if (status === 'active' && backgroundAt.current !== null) {
+      const elapsedInMs = Date.now() - backgroundAt.current
+      backgroundAt.current = null
+
+      if (appLock?.isEnabled && user.id && elapsedInMs >= appLock.timeoutInSeconds * 1000) {
+        setIsLocked(true)
+      }
+    }
+  }
+
+  async function loadAppLock() {
+    setAppLock(await storageAppLockGet())
+  }
+
+  useEffect(() => {
+    loadAppLock()
+  }, [])
+
+  useEffect(() => {
+    if (!isLoadingAppLock || isLoadingUserStorageData || !appLock) return
+
+    setIsLocked(appLock.isEnabled && !!user.id)
+    setIsLoadingAppLock(false)
+  }, [appLock, isLoadingUserStorageData])
+
+  useEffect(() => {
+    if (user.id) return
+
+    setIsLocked(false)
+    setFailedAttempts(0)
+  }, [user.id])
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', handleAppStateChange)
+
+    return () => {
+      subscription.remove()
+    }
+  }, [appLock, user.id])
+
+  return (
+    <AppLockContext.Provider value={{
+      appLock: appLock ?? { isEnabled: false, timeoutInSeconds: 0 },
+      isLocked,
+      isLoadingAppLock,
+      remainingAttempts: MAX_UNLOCK_ATTEMPTS - failedAttempts,
+      unlock,
+      updateAppLock
+    }}>
+      {children}
+    </AppLockContext.Provider>
+  )
+}
@@ -1,16 +1,37 @@
-import { ReactNode, createContext, useEffect, useState } from 'react'
+import { ReactNode, createContext, useCallback, useEffect, useState } from 'react'
 
 import { UserDTO } from '@dtos/UserDTO'
+import { SessionDTO, SocialProvider } from '@dtos/SessionDTO'
 import { api } from '@services/api'
+import { sessionsService } from '@services/sessionsService'
+import { usersService } from '@services/usersService'
+import { remindersCancelAll, remindersReschedule } from '@services/reminders'
+import { AuthError } from '@utils/AppError'
+import { t } from '@i18n/index'
 
 import { storageAuthTokenSave, storageAuthTokenGet, storageAuthTokenRemove } from '@storage/storageAuthToken'
 import { storageUserGet, storageUserSave, storageUserRemove } from '@storage/storageUser'
+import { storageApiUrlGet } from '@storage/storageApiUrl'
+import { storageAccountClear } from '@storage/storageClear'
+import {
+  storageAccountMigrate,
+  storageAccountsGet,
+  storageAccountsRemove,
+  storageAccountsSave,
+  storageActiveAccountGet,
+  storageActiveAccountSet
+} from '@storage/storageAccounts'
 
 export type AuthContextDataProps = {
   user: UserDTO,
+  accounts: UserDTO[]
   signIn: (email: string, password: string) => Promise<void>
+  signInWithProvider: (provider: SocialProvider, idToken: string) => Promise<void>
   updateUserProfile: (userUpdated: UserDTO) => Promise<void>
   signOut: () => Promise<void>
+  switchAccount: (accountId: string) => Promise<void>
+  addAccount: () => void
+  deleteAccount: (password: string) => Promise<void>
   isLoadingUserStorageData: boolean
 }
 
@@ -22,6 +43,7 @@ export const AuthContext = createContext<AuthContextDataProps>({} as AuthContext
 
 export function AuthContextProvider({ children }: AuthContextProviderProps) {
   const [user, setUser] = useState<UserDTO>({} as UserDTO)
+  const [accounts, setAccounts] = useState<UserDTO[]>([])
   const [isLoadingUserStorageData, setIsLoadingUserStorageData] = useState(true)
 
   async function userAndTokenUpdate(userData: UserDTO, token: string) {
@@ -32,8 +54,10 @@ export function AuthContextProvider({ children }: AuthContextProviderProps) {
   async function storageUserAndTokenSave(userData: UserDTO, token: string, refresh_token: string) {
     try {
       setIsLoadingUserStorageData(true)
+      storageActiveAccountSet(userData.id)
       await storageUserSave(userData)
       await storageAuthTokenSave({ token, refresh_token })
+      setAccounts(await storageAccountsSave(userData))
     } catch (error) {
       throw error
     } finally {
@@ -41,16 +65,14 @@ export function AuthContextProvider({ children }: AuthContextProviderProps) {
     }
   }
 
-  async function signIn(email: string, password: string) {
+  async function sessionStart(data: SessionDTO) {
     try {
-      const { data } = await api.post('/sessions', { email, password })
-      if (data.user && data.token && data.refresh_token) {
-        setIsLoadingUserStorageData(true)
+      setIsLoadingUserStorageData(true)
 
-        await storageUserAndTokenSave(data.user, data.token, data.refresh_token)
+      await storageUserAndTokenSave(data.user, data.token, data.refresh_token)
 
-        userAndTokenUpdate(data.user, data.token)
-      }
+      userAndTokenUpdate(data.user, data.token)
+      await remindersReschedule().catch(() => undefined)
     } catch (error) {
       throw error
     } finally {
@@ -58,12 +80,56 @@ export function AuthContextProvider({ children }: AuthContextProviderProps) {
     }
   }
 
-  async function signOut() {
+  async function signIn(email: string, password: string) {
+    const data = await sessionsService.create(email, password)
+
+    await sessionStart(data)
+  }
+
+  async function signInWithProvider(provider: SocialProvider, idToken: string) {
+    const data = await sessionsService.createWithProvider(provider, idToken)
+
+    await sessionStart(data)
+  }
+
+  const signOut = useCallback(async () => {
     try {
       setIsLoadingUserStorageData(true)
       setUser({} as UserDTO)
+      delete api.defaults.headers.common['Authorization']
+
+      const accountId = storageActiveAccountGet()
+
+      await remindersCancelAll().catch(() => undefined)
       await storageUserRemove()
       await storageAuthTokenRemove()
+
+      if (accountId) {
+        setAccounts(await storageAccountsRemove(accountId))
+      }
+
+      storageActiveAccountSet(null)
+    } catch (error) {
+      throw error
+    } finally {
+      setIsLoadingUserStorageData(false)
+    }
+  }, [])
+
+  async function deleteAccount(password: string) {
+    const accountId = storageActiveAccountGet()
+
+    await usersService.remove(password)
+
+    try {
+      setIsLoadingUserStorageData(true)
+      await remindersCancelAll().catch(() => undefined)
+      setAccounts(await storageAccountClear(accountId))
+
+      storageActiveAccountSet(null)
+      delete api.defaults.headers.common['Authorization']
+
+      setUser({} as UserDTO)
     } catch (error) {
       throw error
     } finally {
@@ -71,10 +137,47 @@ export function AuthContextProvider({ children }: AuthContextProviderProps) {
     }
   }
 
+  async function switchAccount(accountId: string) {
+    const account = accounts.find(({ id }) => id === accountId)
+
+    if (!account) return
+
+    const previousAccountId = storageActiveAccountGet()
+
+    try {
+      setIsLoadingUserStorageData(true)
+      storageActiveAccountSet(account.id)
+
+      const { token } = await storageAuthTokenGet()
+
+      if (!token) {
+        storageActiveAccountSet(previousAccountId)
+        setAccounts(await storageAccountsRemove(account.id))
+
+        throw new AuthError(t('accounts.sessionExpired'))
+      }
+
+      await storageUserSave(account)
+      userAndTokenUpdate(account, token)
+      await remindersReschedule().catch(() => undefined)
+    } catch (error) {
+      throw error
+    } finally {
+      setIsLoadingUserStorageData(false)
+    }
+  }
+
+  function addAccount() {
+    storageActiveAccountSet(null)
+    delete api.defaults.headers.common['Authorization']
+    setUser({} as UserDTO)
+  }
+
   async function updateUserProfile(userUpdated: UserDTO) {
     try {
       setUser(userUpdated)
       await storageUserSave(userUpdated)
+      setAccounts(await storageAccountsSave(userUpdated))
     } catch (error) {
       throw error
     }
@@ -84,11 +187,30 @@ export function AuthContextProvider({ children }: AuthContextProviderProps) {
     try {
       setIsLoadingUserStorageData(true)
 
+      const apiUrl = await storageApiUrlGet()
+
+      if (apiUrl) {
+        api.defaults.baseURL = apiUrl
+      }
+
       const userLogged = await storageUserGet()
+      const accountsStored = await storageAccountsGet()
+
+      setAccounts(accountsStored)
+
+      if (!userLogged.id) return
+
+      storageActiveAccountSet(userLogged.id)
+
+      if (!accountsStored.some(({ id }) => id === userLogged.id)) {
+        await storageAccountMigrate()
+      }
+
       const { token } = await storageAuthTokenGet()
 
-      if (token && userLogged) {
+      if (token) {
         userAndTokenUpdate(userLogged, token)
+        setAccounts(await storageAccountsSave(userLogged))
       }
 
     } catch (error) {
@@ -111,7 +233,7 @@ export function AuthContextProvider({ children }: AuthContextProviderProps) {
   }, [signOut])
 
   return (
-    <AuthContext.Provider value={{ user, signIn, signOut, updateUserProfile, isLoadingUserStorageData }}>
+    <AuthContext.Provider value={{ user, accounts, signIn, signInWithProvider, signOut, switchAccount, addAccount, deleteAccount, updateUserProfile, isLoadingUserStorageData }}>
       {children}
     </AuthContext.Provider>
   )
@@ -0,0 +1,58 @@
+import { ReactNode, createContext, useEffect, useState } from 'react'
+import { StatusBar, useColorScheme as useSystemColorScheme } from 'react-native'
+import { NativeBaseProvider } from 'native-base'
+
+import { ColorScheme, THEMES } from '@theme/index'
+import { storageColorSchemeGet, storageColorSchemeSave } from '@storage/storageColorScheme'
+
+export type ColorSchemeContextDataProps = {
+  colorScheme: ColorScheme
+  colorSchemeSelected: ColorScheme | null
+  isLoadingColorScheme: boolean
+  updateColorScheme: (colorScheme: ColorScheme | null) => Promise<void>
+}
+
+type ColorSchemeContextProviderProps = {
+  children: ReactNode
+}
+
+export const ColorSchemeContext = createContext<ColorSchemeContextDataProps>({} as ColorSchemeContextDataProps)
+
+export function ColorSchemeContextProvider({ children }: ColorSchemeContextProviderProps) {
+  const [colorSchemeSelected, setColorSchemeSelected] = useState<ColorScheme | null>(null)
+  const [isLoadingColorScheme, setIsLoadingColorScheme] = useState(true)
+
+  const systemColorScheme = useSystemColorScheme()
+  const colorScheme: ColorScheme = colorSchemeSelected ?? (systemColorScheme === 'light' ? 'light' : 'dark')
+
+  async function updateColorScheme(colorSchemeUpdated: ColorScheme | null) {
+    setColorSchemeSelected(colorSchemeUpdated)
+    await storageColorSchemeSave(colorSchemeUpdated)
+  }
+
+  async function loadColorScheme() {
+    try {
+      setColorSchemeSelected(await storageColorSchemeGet())
+    } finally {
+      setIsLoadingColorScheme(false)
+    }
+  }
+
+  useEffect(() => {
+    loadColorScheme()
+  }, [])
+
+  return (
+    <ColorSchemeContext.Provider value={{ colorScheme, colorSchemeSelected, isLoadingColorScheme, updateColorScheme }}>
+      <NativeBaseProvider theme={THEMES[colorScheme]}>
+        <StatusBar
+          barStyle={colorScheme === 'light' ? 'dark-content' : 'light-content'}
+          backgroundColor='transparent'
+          translucent
+        />
+
+        {children}
+      </NativeBaseProvider>
+    </ColorSchemeContext.Provider>
+  )
+}
\ No newline at end of file
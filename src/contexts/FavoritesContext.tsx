@@ -0,0 +1,80 @@
+import { ReactNode, createContext, useEffect, useState } from 'react'
+
+import { ExerciseDTO } from '@dtos/ExerciseDTO'
+import { favoritesSync, favoritesToggle } from '@services/favorites'
+import { storageFavoritesGet } from '@storage/storageFavorites'
+import { useConnectivity } from '@hooks/useConnectivity'
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { useLocale } from '@hooks/useLocale'
+import { useToast } from '@hooks/useToast'
+
+export type FavoritesContextDataProps = {
+  favorites: ExerciseDTO[]
+  isFavorite: (exerciseId: string) => boolean
+  toggleFavorite: (exercise: ExerciseDTO) => Promise<void>
+}
+
+type FavoritesContextProviderProps = {
+  children: ReactNode
+}
+
+export const FavoritesContext = createContext<FavoritesContextDataProps>({} as FavoritesContextDataProps)
+
+export function FavoritesContextProvider({ children }: FavoritesContextProviderProps) {
+  const [favorites, setFavorites] = useState<ExerciseDTO[]>([])
+
+  const toast = useToast()
+  const { handleError } = useErrorHandler()
+  const { t } = useLocale()
+
+  useConnectivity({ onReconnect: syncFavorites })
+
+  function isFavorite(exerciseId: string) {
+    return favorites.some(({ id }) => id === exerciseId)
+  }
+
+  async function toggleFavorite(exercise: ExerciseDTO) {
+    setFavorites(current => isFavorite(exercise.id)
+      ? current.filter(({ id }) => id !== exercise.id)
+      : [...current, exercise]
+    )
+
+    setFavorites(await favoritesToggle(exercise))
+    await syncFavorites()
+  }
+
+  async function syncFavorites() {
+    try {
+      const { exercises, rejected } = await favoritesSync()
+
+      setFavorites(exercises)
+
+      if (rejected.length > 0) {
+        toast.show({
+          title: t('favorites.syncRejected', { count: rejected.length }),
+          placement: 'top',
+          bgColor: 'red.500'
+        })
+      }
+    } catch (error) {
+      handleError(error, t('favorites.syncError'))
+    }
+  }
+
+  async function loadFavorites() {
+    const { exercises } = await storageFavoritesGet()
+    setFavorites(exercises)
+
+    await syncFavorites()
+  }
+
+  useEffect(() => {
+    loadFavorites()
+  }, [])
+
+  return (
+    <FavoritesContext.Provider value={{ favorites, isFavorite, toggleFavorite }}>
+      {children}
+    </FavoritesContext.Provider>
+  )
+}
\ No newline at end of file
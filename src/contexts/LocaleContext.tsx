@@ -0,0 +1,56 @@
+import { ReactNode, createContext, useEffect, useState } from 'react'
+
+import { Locale, formatDate, i18nLocaleGet, i18nLocaleSet, localeDeviceGet, t } from '@i18n/index'
+import { storageLocaleGet, storageLocaleSave } from '@storage/storageLocale'
+
+export type LocaleContextDataProps = {
+  locale: Locale
+  localeSelected: Locale | null
+  isLoadingLocale: boolean
+  t: typeof t
+  formatDate: typeof formatDate
+  updateLocale: (locale: Locale | null) => Promise<void>
+}
+
+type LocaleContextProviderProps = {
+  children: ReactNode
+}
+
+export const LocaleContext = createContext<LocaleContextDataProps>({} as LocaleContextDataProps)
+
+export function LocaleContextProvider({ children }: LocaleContextProviderProps) {
+  const [locale, setLocale] = useState<Locale>(i18nLocaleGet())
+  const [localeSelected, setLocaleSelected] = useState<Locale | null>(null)
+  const [isLoadingLocale, setIsLoadingLocale] = useState(true)
+
+  function localeApply(localeUpdated: Locale | null) {
+    const localeResolved = localeUpdated ?? localeDeviceGet()
+
+    i18nLocaleSet(localeResolved)
+    setLocale(localeResolved)
+    setLocaleSelected(localeUpdated)
+  }
+
+  async function updateLocale(localeUpdated: Locale | null) {
+    localeApply(localeUpdated)
+    await storageLocaleSave(localeUpdated)
+  }
+
+  async function loadLocale() {
+    try {
+      localeApply(await storageLocaleGet())
+    } finally {
+      setIsLoadingLocale(false)
+    }
+  }
+
+  useEffect(() => {
+    loadLocale()
+  }, [])
+
+  return (
+    <LocaleContext.Provider value={{ locale, localeSelected, isLoadingLocale, t, formatDate, updateLocale }}>
+      {children}
+    </LocaleContext.Provider>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,4 @@
+export type ExerciseSetDTO = {
+  repetitions: number
+  load: number
+}
\ No newline at end of file
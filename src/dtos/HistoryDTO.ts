@@ -1,7 +1,10 @@
+import { ExerciseSetDTO } from './ExerciseSetDTO'
+
 export type HistoryDTO = {
   id: string
   name: string
   group: string
   hour: string
   created_at: string
+  sets?: ExerciseSetDTO[]
 }
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { PlanExerciseDTO } from './PlanExerciseDTO'
+
+export type PlanDTO = {
+  id: string
+  name: string
+  weekdays: number[]
+  exercises: PlanExerciseDTO[]
+}
\ No newline at end of file
@@ -0,0 +1,9 @@
+export type PlanExerciseDTO = {
+  exercise_id: string
+  name: string
+  group: string
+  thumb: string
+  series: number
+  repetitions: number
+  updated_at: string
+}
\ No newline at end of file
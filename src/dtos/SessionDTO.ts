@@ -0,0 +1,9 @@
+import { UserDTO } from './UserDTO'
+
+export type SocialProvider = 'google' | 'apple'
+
+export type SessionDTO = {
+  user: UserDTO
+  token: string
+  refresh_token: string
+}
\ No newline at end of file
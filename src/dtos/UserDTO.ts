@@ -2,5 +2,5 @@ export type UserDTO = {
   id: string
   name: string
   email: string
-  avatar: string
+  avatar: string | null
 }
\ No newline at end of file
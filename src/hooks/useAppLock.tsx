@@ -0,0 +1,8 @@
+import { useContext } from 'react'
+
+import { AppLockContext } from '@contexts/AppLockContext'
+
+export function useAppLock() {
+  const context = useContext(AppLockContext)
+  return context
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react'
+
+import { ImageCacheSource, imageCacheGet } from '@services/imageCache'
+
+export function useCachedImage(source: ImageCacheSource) {
+  const [uri, setUri] = useState<string | null>(null)
+
+  function handleCacheMiss() {
+    setUri(source.url)
+  }
+
+  useEffect(() => {
+    let isActive = true
+
+    setUri(null)
+
+    imageCacheGet(source)
+      .then(cachedUri => isActive && setUri(cachedUri))
+      .catch(() => isActive && setUri(source.url))
+
+    return () => {
+      isActive = false
+    }
+  }, [source.key, source.version])
+
+  return { uri, handleCacheMiss }
+}
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { useContext } from 'react'
+
+import { ColorSchemeContext } from '@contexts/ColorSchemeContext'
+
+export function useColorScheme() {
+  const context = useContext(ColorSchemeContext)
+  return context
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { useEffect, useRef } from 'react'
+import { useNetInfo } from '@react-native-community/netinfo'
+
+type Props = {
+  onReconnect?: () => void
+}
+
+export function useConnectivity({ onReconnect }: Props = {}) {
+  const { isConnected } = useNetInfo()
+  const wasConnected = useRef(isConnected)
+
+  useEffect(() => {
+    if (wasConnected.current === false && isConnected) {
+      onReconnect?.()
+    }
+
+    wasConnected.current = isConnected
+  }, [isConnected])
+
+  return { isOffline: isConnected === false }
+}
\ No newline at end of file
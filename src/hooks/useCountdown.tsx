@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react'
+
+type Props = {
+  onFinish?: () => void
+}
+
+export function useCountdown({ onFinish }: Props = {}) {
+  const [endsAt, setEndsAt] = useState<number | null>(null)
+  const [secondsLeft, setSecondsLeft] = useState(0)
+
+  function start(seconds: number) {
+    setSecondsLeft(seconds)
+    setEndsAt(Date.now() + seconds * 1000)
+  }
+
+  function stop() {
+    setEndsAt(null)
+    setSecondsLeft(0)
+  }
+
+  useEffect(() => {
+    if (!endsAt) return
+
+    const interval = setInterval(() => {
+      const remaining = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000))
+      setSecondsLeft(remaining)
+
+      if (remaining === 0) {
+        setEndsAt(null)
+        onFinish?.()
+      }
+    }, 250)
+
+    return () => {
+      clearInterval(interval)
+    }
+  }, [endsAt])
+
+  return { secondsLeft, isRunning: endsAt !== null, start, stop }
+}
\ No newline at end of file
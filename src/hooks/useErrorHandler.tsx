@@ -0,0 +1,29 @@
+import { FieldValues, Path, UseFormSetError } from 'react-hook-form'
+
+import { AppError, NetworkError, TimeoutError, ValidationError } from '@utils/AppError'
+import { useToast } from '@hooks/useToast'
+
+export function useErrorHandler() {
+  const toast = useToast()
+
+  function handleError<T extends FieldValues>(error: unknown, fallbackMessage: string, setError?: UseFormSetError<T>) {
+    if (error instanceof ValidationError && setError && Object.keys(error.fieldErrors).length > 0) {
+      Object.entries(error.fieldErrors).forEach(([field, message]) => {
+        setError(field as Path<T>, { type: 'server', message })
+      })
+
+      return
+    }
+
+    const isAppError = error instanceof AppError
+    const isConnectionError = error instanceof NetworkError || error instanceof TimeoutError
+
+    toast.show({
+      title: isAppError ? error.message : fallbackMessage,
+      placement: 'top',
+      bgColor: isConnectionError ? 'gray.500' : 'red.500'
+    })
+  }
+
+  return { handleError }
+}
\ No newline at end of file
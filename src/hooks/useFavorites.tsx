@@ -0,0 +1,8 @@
+import { useContext } from 'react'
+
+import { FavoritesContext } from '@contexts/FavoritesContext'
+
+export function useFavorites() {
+  const context = useContext(FavoritesContext)
+  return context
+}
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { useEffect } from 'react'
+
+import { HistoryOutboxRejection, historyOutboxFlush, historyOutboxRejectionsSubscribe } from '@services/historyOutbox'
+import { useConnectivity } from '@hooks/useConnectivity'
+import { useLocale } from '@hooks/useLocale'
+import { useToast } from '@hooks/useToast'
+
+export function useHistoryOutboxSync() {
+  const toast = useToast()
+  const { t } = useLocale()
+
+  useConnectivity({ onReconnect: historyOutboxFlush })
+
+  function handleRejections(rejected: HistoryOutboxRejection[]) {
+    toast.show({
+      title: t('history.syncRejected', { count: rejected.length, name: rejected[0].item.name }),
+      placement: 'top',
+      bgColor: 'red.500'
+    })
+  }
+
+  useEffect(() => {
+    const unsubscribe = historyOutboxRejectionsSubscribe(handleRejections)
+
+    historyOutboxFlush()
+
+    return unsubscribe
+  }, [])
+}
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { useEffect } from 'react'
+
+import { useAuth } from '@hooks/useAuth'
+import { historyService } from '@services/historyService'
+import { inactivityNudgeSchedule } from '@services/reminders'
+import { storageHistoryOutboxGet } from '@storage/storageHistoryOutbox'
+
+export function useInactivityNudge() {
+  const { user } = useAuth()
+
+  async function scheduleFromLatestHistory() {
+    try {
+      const [latestDay] = await historyService.listPage(null, 1)
+      const pending = await storageHistoryOutboxGet()
+
+      const trainedAt = [
+        ...(latestDay?.data.map(({ created_at }) => created_at) ?? []),
+        ...pending.map(({ created_at }) => created_at)
+      ].map(date => new Date(date).getTime())
+
+      await inactivityNudgeSchedule(trainedAt.length > 0 ? new Date(Math.max(...trainedAt)) : null)
+    } catch {
+      return
+    }
+  }
+
+  useEffect(() => {
+    scheduleFromLatestHistory()
+  }, [user.id])
+}
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { useContext } from 'react'
+
+import { LocaleContext } from '@contexts/LocaleContext'
+
+export function useLocale() {
+  const context = useContext(LocaleContext)
+  return context
+}
\ No newline at end of file
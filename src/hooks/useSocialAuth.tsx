@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react'
+import * as AuthSession from 'expo-auth-session'
+import * as WebBrowser from 'expo-web-browser'
+import * as AppleAuthentication from 'expo-apple-authentication'
+
+import { SocialProvider } from '@dtos/SessionDTO'
+import { AppError } from '@utils/AppError'
+import { OAUTH_CLIENT_ID, OAUTH_ISSUER } from '@utils/environment'
+import { t } from '@i18n/index'
+
+WebBrowser.maybeCompleteAuthSession()
+
+const redirectUri = AuthSession.makeRedirectUri({ scheme: 'ignitegym', path: 'oauth' })
+
+export function useSocialAuth() {
+  const [isAppleAvailable, setIsAppleAvailable] = useState(false)
+
+  const discovery = AuthSession.useAutoDiscovery(OAUTH_ISSUER)
+  const [request, , promptAsync] = AuthSession.useAuthRequest({
+    clientId: OAUTH_CLIENT_ID,
+    redirectUri,
+    scopes: ['openid', 'profile', 'email']
+  }, discovery)
+
+  async function requestGoogleIdToken() {
+    if (!request || !discovery) {
+      throw new AppError(t('socialAuth.googleUnavailable'))
+    }
+
+    const result = await promptAsync()
+
+    if (result.type !== 'success') return null
+
+    const { idToken } = await AuthSession.exchangeCodeAsync({
+      clientId: OAUTH_CLIENT_ID,
+      code: result.params.code,
+      redirectUri,
+      extraParams: request.codeVerifier ? { code_verifier: request.codeVerifier } : undefined
+    }, discovery)
+
+    if (!idToken) {
+      throw new AppError(t('socialAuth.googleMissingToken'))
+    }
+
+    return idToken
+  }
+
+  async function requestAppleIdToken() {
+    try {
+      const credential = await AppleAuthentication.signInAsync({
+        requestedScopes: [
+          AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+          AppleAuthentication.AppleAuthenticationScope.EMAIL
+        ]
+      })
+
+      return credential.identityToken
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'ERR_REQUEST_CANCELED') return null
+
+      throw error
+    }
+  }
+
+  function requestIdToken(provider: SocialProvider) {
+    return provider === 'google' ? requestGoogleIdToken() : requestAppleIdToken()
+  }
+
+  useEffect(() => {
+    AppleAuthentication.isAvailableAsync().then(setIsAppleAvailable)
+  }, [])
+
+  return {
+    isGoogleAvailable: !!OAUTH_CLIENT_ID && !!request,
+    isAppleAvailable,
+    requestIdToken
+  }
+}
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { IToastProps, useToast as useNativeBaseToast } from 'native-base'
+
+export function useToast() {
+  const toast = useNativeBaseToast()
+
+  function show({ title, accessibilityAnnouncement, ...rest }: IToastProps) {
+    return toast.show({
+      title,
+      accessibilityAnnouncement: accessibilityAnnouncement ?? (typeof title === 'string' ? title : undefined),
+      accessibilityLiveRegion: 'polite',
+      ...rest
+    })
+  }
+
+  return { ...toast, show }
+}
\ No newline at end of file
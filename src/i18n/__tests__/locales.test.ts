@@ -0,0 +1,20 @@
+import { ptBR } from '@i18n/locales/ptBR'
+import { en } from '@i18n/locales/en'
+
+describe('locales', () => {
+  it('defines the same keys in every bundle', () => {
+    expect(Object.keys(en).sort()).toEqual(Object.keys(ptBR).sort())
+  })
+
+  it('defines the same plural forms in every bundle', () => {
+    Object.entries(ptBR).forEach(([key, value]) => {
+      const translated: unknown = en[key as keyof typeof en]
+
+      expect(typeof translated).toBe(typeof value)
+
+      if (typeof value === 'object') {
+        expect(Object.keys(translated as object).sort()).toEqual(Object.keys(value).sort())
+      }
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { getLocales } from 'expo-localization'
+
+import { ptBR, TranslationKey, Translations } from './locales/ptBR'
+import { en } from './locales/en'
+
+export type Locale = 'pt-BR' | 'en'
+
+export type { TranslationKey }
+
+export type TranslationParams = Record<string, string | number>
+
+export const LOCALES: { locale: Locale, name: string }[] = [
+  { locale: 'pt-BR', name: 'Português' },
+  { locale: 'en', name: 'English' }
+]
+
+const FALLBACK_LOCALE: Locale = 'en'
+
+const translations: Record<Locale, Translations> = {
+  'pt-BR': ptBR,
+  en
+}
+
+let currentLocale = localeDeviceGet()
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some(({ locale }) => locale === value)
+}
+
+export function localeDeviceGet(): Locale {
+  const [deviceLocale] = getLocales()
+
+  const supported = LOCALES.find(({ locale }) => locale.split('-')[0] === deviceLocale?.languageCode)
+
+  return supported?.locale ?? FALLBACK_LOCALE
+}
+
+export function i18nLocaleSet(locale: Locale) {
+  currentLocale = locale
+}
+
+export function i18nLocaleGet() {
+  return currentLocale
+}
+
+function interpolate(text: string, params: TranslationParams) {
+  return text.replace(/\{\{(\w+)\}\}/g, (match, name: string) => name in params ? String(params[name]) : match)
+}
+
+export function t(key: TranslationKey, params: TranslationParams = {}) {
+  const translation = translations[currentLocale][key]
+
+  const text = typeof translation === 'string'
+    ? translation
+    : translation[Math.abs(Number(params.count)) === 1 ? 'one' : 'other']
+
+  return interpolate(text, params)
+}
+
+export function formatDate(date: Date, options: Intl.DateTimeFormatOptions) {
+  return new Intl.DateTimeFormat(currentLocale, options).format(date)
+}
\ No newline at end of file
@@ -0,0 +1,307 @@
+import { Translations } from './ptBR'
+
+export const en: Translations = {
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.back': 'Back',
+  'common.undo': 'Undo',
+
+  'errors.network': 'Unable to reach the server. Check your internet connection and try again.',
+  'errors.timeout': 'The server took too long to respond. Please try again.',
+  'errors.server': 'The server is unavailable right now. Please try again later.',
+  'errors.unexpectedResponse': 'The server returned an unexpected response. Please try again later.',
+  'errors.sessionExpired': 'Your session has expired. Please sign in again.',
+  'errors.validation': 'Please check the information you entered.',
+  'errors.generic': 'The operation could not be completed.',
+
+  'accounts.sessionExpired': "This account's session has expired. Please sign in again.",
+  'accounts.switch': 'Switch account',
+  'accounts.add': 'Add account',
+  'accounts.signOut': 'Sign out',
+  'accounts.switchError': 'Unable to switch accounts.',
+
+  'appLock.promptMessage': 'Unlock Ignite Gym',
+  'appLock.fallbackLabel': 'Use device passcode',
+  'appLock.notEnrolled': 'Set up biometrics or a PIN on your device to enable the lock.',
+  'appLock.authenticationFailed': "We couldn't verify your identity.",
+
+  'socialAuth.googleUnavailable': 'Google sign-in is unavailable right now.',
+  'socialAuth.googleMissingToken': 'Google did not return your identity.',
+
+  'avatar.unsupportedFormat': 'Unsupported format. Choose a JPG, PNG, HEIC or WEBP image.',
+  'avatar.tooLarge': 'This image is too large. Choose one up to 5MB.',
+
+  'imageCache.downloadError': 'The image could not be downloaded.',
+
+  'dataExport.sharingUnavailable': 'Sharing is not available on this device.',
+  'dataExport.dialogTitle': 'Download my data',
+
+  'reminders.channelName': 'Workout reminders',
+  'reminders.permissionDenied': 'Allow notifications in your device settings to receive reminders.',
+  'reminders.title': 'Time to work out!',
+  'reminders.body': 'Your exercises are waiting for you.',
+  'reminders.planTitle': 'Today is {{plan}} day',
+  'reminders.planBody': 'Tap to start with the first exercise.',
+  'reminders.inactivityTitle': { one: "It's been {{count}} day since your last workout", other: "It's been {{count}} days since your last workout" },
+  'reminders.inactivityBody': 'How about coming back today? Your exercises are waiting for you.',
+  'reminders.enable': 'Get reminders on workout days',
+  'reminders.weekdays': 'Days of the week',
+  'reminders.time': 'Time',
+  'reminders.inactivity': "Notify me when I haven't worked out for",
+  'reminders.inactivityOff': 'Off',
+  'reminders.inactivityDays': { one: '{{count}} day', other: '{{count}} days' },
+  'reminders.save': 'Save reminders',
+  'reminders.scheduled': 'Reminders scheduled.',
+  'reminders.disabled': 'Reminders turned off.',
+  'reminders.saveError': 'Unable to save the reminders.',
+
+  'form.name': 'Name',
+  'form.email': 'Email',
+  'form.password': 'Password',
+  'form.passwordConfirm': 'Confirm password',
+  'form.nameRequired': 'Enter your name.',
+  'form.emailRequired': 'Enter your email.',
+  'form.emailInvalid': 'Invalid email.',
+  'form.passwordRequired': 'Enter your password.',
+  'form.passwordMin': 'The password must be at least {{min}} characters long.',
+  'form.passwordConfirmRequired': 'Confirm your password.',
+  'form.passwordConfirmMismatch': 'The password confirmation does not match.',
+  'form.newPassword': 'New password',
+  'form.newPasswordConfirm': 'Confirm the new password',
+  'form.newPasswordRequired': 'Enter the new password.',
+  'form.newPasswordConfirmRequired': 'Confirm the new password.',
+  'form.oldPassword': 'Current password',
+  'form.timeInvalid': 'Enter the time in HH:MM format.',
+  'form.timePlaceholder': 'HH:MM',
+
+  'signIn.title': 'Sign in to your account',
+  'signIn.slogan': 'Train your mind and your body',
+  'signIn.backgroundAlt': 'People working out',
+  'signIn.accountsTitle': 'Accounts on this device',
+  'signIn.submit': 'Sign in',
+  'signIn.forgotPassword': 'Forgot my password',
+  'signIn.socialDivider': 'or continue with',
+  'signIn.google': 'Sign in with Google',
+  'signIn.noAccount': "Don't have an account yet?",
+  'signIn.createAccount': 'Create account',
+  'signIn.error': 'Unable to sign in. Please try again later',
+  'signIn.accountSwitchError': 'Unable to access this account.',
+
+  'signUp.title': 'Create your account',
+  'signUp.submit': 'Create and sign in',
+  'signUp.backToSignIn': 'Back to sign in',
+  'signUp.error': 'Unable to create the account. Please try again later.',
+
+  'forgotPassword.title': 'Recover password',
+  'forgotPassword.description': "Enter your account email and we'll send you a code to reset your password.",
+  'forgotPassword.submit': 'Send code',
+  'forgotPassword.error': 'Unable to send the code. Please try again later.',
+
+  'resetCode.title': 'Enter the code',
+  'resetCode.description': 'We sent a {{length}}-digit code to {{email}}.',
+  'resetCode.code': 'Code',
+  'resetCode.codeRequired': 'Enter the code.',
+  'resetCode.codeInvalid': 'The code must have {{length}} digits.',
+  'resetCode.submit': 'Verify code',
+  'resetCode.resend': 'Resend code',
+  'resetCode.resent': 'We sent a new code to your email.',
+  'resetCode.resendError': 'Unable to resend the code. Please try again later.',
+  'resetCode.error': 'Unable to verify the code. Please try again.',
+
+  'resetPassword.title': 'Create a new password',
+  'resetPassword.submit': 'Reset and sign in',
+  'resetPassword.error': 'Unable to reset the password. Request a new code.',
+
+  'profile.title': 'Profile',
+  'profile.photoAlt': 'Photo of {{name}}',
+  'profile.changePhoto': 'Change photo',
+  'profile.photoOptionsTitle': 'Profile photo',
+  'profile.photoCamera': 'Take photo',
+  'profile.photoLibrary': 'Choose from library',
+  'profile.photoRemove': 'Remove photo',
+  'profile.cameraPermissionDenied': 'Allow camera access to take the photo.',
+  'profile.photoUpdated': 'Photo updated',
+  'profile.photoUpdateError': 'Unable to update the photo.',
+  'profile.photoRemoved': 'Photo removed',
+  'profile.photoRemoveError': 'Unable to remove the photo.',
+  'profile.changePassword': 'Change password',
+  'profile.submit': 'Update',
+  'profile.updated': 'Profile updated successfully!',
+  'profile.updateError': 'Unable to update your information. Please try again later.',
+  'profile.identitiesTitle': 'Connected accounts',
+  'profile.identitiesDescription': 'Connect an account to sign in without typing your password.',
+  'profile.identityLink': 'Connect {{provider}} account',
+  'profile.identityLinked': '{{provider}} account connected.',
+  'profile.identityLinkError': 'Unable to connect the {{provider}} account.',
+  'profile.languageTitle': 'Language',
+  'profile.languageSystem': 'System',
+  'profile.languageError': 'Unable to change the language.',
+  'profile.themeTitle': 'Theme',
+  'profile.themeSystem': 'System',
+  'profile.themeLight': 'Light',
+  'profile.themeDark': 'Dark',
+  'profile.themeError': 'Unable to change the theme.',
+  'profile.securityTitle': 'Security',
+  'profile.appLock': 'Lock with biometrics or PIN',
+  'profile.appLockTimeout': 'Lock after leaving the app',
+  'profile.appLockImmediately': 'Immediately',
+  'profile.appLockMinutes': '{{minutes}} min',
+  'profile.appLockError': 'Unable to update the app lock.',
+  'profile.dataTitle': 'Your data',
+  'profile.dataExportJson': 'Profile and history (JSON)',
+  'profile.dataExportCsv': 'Profile and history as a spreadsheet (CSV)',
+  'profile.dataExportError': 'Unable to export your data.',
+  'profile.deleteAccount': 'Delete account',
+  'profile.deleteAccountError': 'Unable to delete the account. Please try again later.',
+
+  'home.search': 'Search exercise',
+  'home.favorites': 'Favorites',
+  'home.results': 'Results',
+  'home.exercises': 'Exercises',
+  'home.empty': 'No exercises found.',
+  'home.favoritesEmpty': "You haven't favorited any exercises yet.",
+  'home.downloading': 'Downloading {{done}}/{{total}}',
+  'home.downloadSuccess': 'Exercises available offline.',
+  'home.downloadPartial': 'Some exercises could not be downloaded. Please try again.',
+  'home.downloadError': 'Unable to download the exercises.',
+  'home.groupsError': 'Unable to load the muscle groups.',
+  'home.exercisesError': 'Unable to load the exercises.',
+  'home.greeting': 'Hello,',
+  'home.title': 'Home',
+  'home.download': 'Download exercises for offline use',
+
+  'favorites.syncRejected': { one: 'Unable to sync a favorite change. It was discarded.', other: 'Unable to sync {{count}} favorite changes. They were discarded.' },
+  'favorites.syncError': 'Unable to load your favorites.',
+
+  'exercise.series': { one: '{{count}} set', other: '{{count}} sets' },
+  'exercise.repetitions': { one: '{{count}} rep', other: '{{count}} reps' },
+  'exercise.imageAlt': '{{name}} exercise image',
+  'exercise.planStep': 'exercise {{step}} of {{total}}',
+  'exercise.startSession': 'Start session',
+  'exercise.markAsDone': 'Mark as done',
+  'exercise.registered': 'Well done! Exercise added to your history',
+  'exercise.registerPending': "Exercise saved! It will sync with your history once you're back online",
+  'exercise.planCompleted': '{{plan}} completed!',
+  'exercise.shareMessage': '{{name}} on Ignite Gym: {{url}}',
+  'exercise.shareError': 'Unable to share the exercise.',
+  'exercise.share': 'Share exercise',
+  'exercise.favoriteAdd': 'Add to favorites',
+  'exercise.favoriteRemove': 'Remove from favorites',
+  'exercise.loadError': 'Unable to load the exercise details.',
+  'exercise.planLoadError': 'Unable to load the workout.',
+  'exercise.registerError': 'Unable to register the exercise.',
+
+  'history.title': 'Exercise History',
+  'history.statistics': 'View statistics',
+  'history.pendingSection': 'Waiting to sync',
+  'history.empty': 'No exercises registered yet.\nShall we work out today?',
+  'history.editTime': 'Edit time',
+  'history.delete': 'Delete entry',
+  'history.deleted': 'Entry deleted.',
+  'history.timeUpdated': 'Time changed to {{hour}}.',
+  'history.loadError': 'Unable to load the history.',
+  'history.loadMoreError': 'Unable to load more entries.',
+  'history.deleteError': 'Unable to delete the entry.',
+  'history.timeUpdateError': 'Unable to change the time.',
+  'history.notSynced': 'Not synced yet',
+  'history.syncRejected': { one: 'Unable to sync {{name}}. The entry was discarded.', other: 'Unable to sync {{count}} entries. They were discarded.' },
+  'history.actions': 'Edit or delete',
+
+  'weekdays.sunday': 'Sun',
+  'weekdays.monday': 'Mon',
+  'weekdays.tuesday': 'Tue',
+  'weekdays.wednesday': 'Wed',
+  'weekdays.thursday': 'Thu',
+  'weekdays.friday': 'Fri',
+  'weekdays.saturday': 'Sat',
+
+  'workoutSession.currentSet': 'Set {{set}} of {{total}}',
+  'workoutSession.set': 'Set {{set}}',
+  'workoutSession.plannedRepetitions': { one: '{{count}} planned rep', other: '{{count}} planned reps' },
+  'workoutSession.rest': 'Rest',
+  'workoutSession.skipRest': 'Skip rest',
+  'workoutSession.repetitions': 'Reps',
+  'workoutSession.load': 'Load (kg)',
+  'workoutSession.finishSet': 'Finish set',
+  'workoutSession.finishExercise': 'Finish exercise',
+  'workoutSession.restDuration': 'Rest time',
+  'workoutSession.cancel': 'Cancel session',
+
+  'deleteAccount.description': 'Your account, history and workouts will be permanently deleted. Confirm your password to continue.',
+  'deleteAccount.submit': 'Delete my account',
+
+  'syncStatus.offline': 'You are offline.',
+  'syncStatus.updateFailed': 'Unable to update.',
+  'syncStatus.syncedAt': 'Last synced on {{date}}',
+
+  'plans.exercisesCount': { one: '{{count}} exercise', other: '{{count}} exercises' },
+  'plans.today': "Today's workout",
+  'plans.title': 'Workouts',
+  'plans.namePlaceholder': 'New workout name (e.g. Workout A)',
+  'plans.nameRequired': 'Enter the workout name.',
+  'plans.create': 'Create workout',
+  'plans.myPlans': 'My workouts',
+  'plans.empty': "You haven't created any workouts yet.\nHow about putting together your workout A?",
+  'plans.loadError': 'Unable to load the workouts.',
+  'plans.createError': 'Unable to create the workout.',
+
+  'filters.title': 'Filters',
+  'filters.groups': 'Muscle groups',
+  'filters.groupsRequired': 'Select at least one muscle group.',
+  'filters.min': 'Minimum',
+  'filters.max': 'Maximum',
+  'filters.sort': 'Sort by',
+  'filters.sortName': 'Name',
+  'filters.sortSeries': 'Sets',
+  'filters.sortRepetitions': 'Reps',
+  'filters.apply': 'Apply filters',
+  'filters.clear': 'Clear',
+
+  'plan.addExercise': 'Add exercise',
+  'plan.name': 'Workout name',
+  'plan.exercises': 'Exercises',
+  'plan.start': 'Start workout',
+  'plan.remove': 'Delete workout',
+  'plan.saved': 'Workout saved successfully!',
+  'plan.saveError': 'Unable to save the workout.',
+  'plan.startError': 'Unable to start the workout.',
+  'plan.removeError': 'Unable to delete the workout.',
+  'plan.removeDescription': '"{{name}}" and its schedule will be permanently deleted.',
+  'plan.removeSubmit': 'Delete',
+  'plan.moveUp': 'Move up',
+  'plan.moveDown': 'Move down',
+  'plan.removeExercise': 'Remove exercise',
+  'plan.increase': 'Increase',
+  'plan.decrease': 'Decrease',
+
+  'statistics.title': 'Statistics',
+  'statistics.range4Weeks': '4 weeks',
+  'statistics.range3Months': '3 months',
+  'statistics.range12Months': '12 months',
+  'statistics.workoutDays': 'Workout days',
+  'statistics.currentStreak': 'Current streak',
+  'statistics.longestStreak': 'Longest streak',
+  'statistics.streakDays': '{{days}} d',
+  'statistics.workoutsPerWeek': 'Workouts per week',
+  'statistics.frequency': 'Frequency',
+  'statistics.volumeByGroup': 'Volume by muscle group',
+  'statistics.empty': 'No exercises registered in this period.',
+  'statistics.topExercises': 'Most performed',
+  'statistics.loadError': 'Unable to load the statistics.',
+
+  'lock.title': 'App locked',
+  'lock.description': 'Use your biometrics or device PIN to continue.',
+  'lock.lastAttempt': 'Last attempt before signing out.',
+  'lock.remainingAttempts': { one: '{{count}} attempt left.', other: '{{count}} attempts left.' },
+  'lock.unlock': 'Unlock',
+  'lock.signOut': 'Sign out',
+
+  'developerSettings.title': 'Developer settings',
+  'developerSettings.environment': 'Build environment: {{environment}}',
+  'developerSettings.servers': 'Servers',
+  'developerSettings.customUrl': 'Custom URL',
+  'developerSettings.urlInvalid': 'Enter a valid URL, e.g. http://192.168.0.10:3333',
+  'developerSettings.save': 'Save server',
+  'developerSettings.reset': 'Restore default',
+  'developerSettings.saved': 'Server updated.'
+}
\ No newline at end of file
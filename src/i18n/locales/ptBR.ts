@@ -0,0 +1,309 @@
+export const ptBR = {
+  'common.cancel': 'Cancelar',
+  'common.save': 'Salvar',
+  'common.back': 'Voltar',
+  'common.undo': 'Desfazer',
+
+  'errors.network': 'Sem conexão com o servidor. Verifique sua internet e tente novamente.',
+  'errors.timeout': 'O servidor demorou para responder. Tente novamente.',
+  'errors.server': 'O servidor está indisponível no momento. Tente novamente mais tarde.',
+  'errors.unexpectedResponse': 'O servidor retornou uma resposta inesperada. Tente novamente mais tarde.',
+  'errors.sessionExpired': 'Sua sessão expirou. Entre novamente.',
+  'errors.validation': 'Verifique os dados informados.',
+  'errors.generic': 'Não foi possível concluir a operação.',
+
+  'accounts.sessionExpired': 'A sessão dessa conta expirou. Entre novamente.',
+  'accounts.switch': 'Trocar de conta',
+  'accounts.add': 'Adicionar conta',
+  'accounts.signOut': 'Sair',
+  'accounts.switchError': 'Não foi possível trocar de conta.',
+
+  'appLock.promptMessage': 'Desbloquear o Ignite Gym',
+  'appLock.fallbackLabel': 'Usar senha do aparelho',
+  'appLock.notEnrolled': 'Cadastre uma biometria ou um PIN no aparelho para ativar o bloqueio.',
+  'appLock.authenticationFailed': 'Não foi possível confirmar sua identidade.',
+
+  'socialAuth.googleUnavailable': 'Login com Google indisponível no momento.',
+  'socialAuth.googleMissingToken': 'O Google não retornou a sua identificação.',
+
+  'avatar.unsupportedFormat': 'Formato não suportado. Escolha uma imagem JPG, PNG, HEIC ou WEBP.',
+  'avatar.tooLarge': 'Essa imagem é muito grande. Escolha uma de até 5MB.',
+
+  'imageCache.downloadError': 'Não foi possível baixar a imagem.',
+
+  'dataExport.sharingUnavailable': 'O compartilhamento não está disponível neste aparelho.',
+  'dataExport.dialogTitle': 'Baixar meus dados',
+
+  'reminders.channelName': 'Lembretes de treino',
+  'reminders.permissionDenied': 'Permita as notificações nas configurações do aparelho para receber lembretes.',
+  'reminders.title': 'Hora de treinar!',
+  'reminders.body': 'Seus exercícios estão te esperando.',
+  'reminders.planTitle': 'Hoje é dia de {{plan}}',
+  'reminders.planBody': 'Toque para começar pelo primeiro exercício.',
+  'reminders.inactivityTitle': { one: 'Faz {{count}} dia que você não treina', other: 'Faz {{count}} dias que você não treina' },
+  'reminders.inactivityBody': 'Que tal voltar hoje? Seus exercícios estão te esperando.',
+  'reminders.enable': 'Receber lembretes nos dias de treino',
+  'reminders.weekdays': 'Dias da semana',
+  'reminders.time': 'Horário',
+  'reminders.inactivity': 'Avisar quando eu ficar sem treinar por',
+  'reminders.inactivityOff': 'Desligado',
+  'reminders.inactivityDays': { one: '{{count}} dia', other: '{{count}} dias' },
+  'reminders.save': 'Salvar lembretes',
+  'reminders.scheduled': 'Lembretes agendados.',
+  'reminders.disabled': 'Lembretes desativados.',
+  'reminders.saveError': 'Não foi possível salvar os lembretes.',
+
+  'form.name': 'Nome',
+  'form.email': 'E-mail',
+  'form.password': 'Senha',
+  'form.passwordConfirm': 'Confirme a senha',
+  'form.nameRequired': 'Informe o nome.',
+  'form.emailRequired': 'Informe o e-mail.',
+  'form.emailInvalid': 'E-mail inválido.',
+  'form.passwordRequired': 'Informe a senha.',
+  'form.passwordMin': 'A senha deve ter pelo menos {{min}} dígitos.',
+  'form.passwordConfirmRequired': 'Confirme a senha.',
+  'form.passwordConfirmMismatch': 'A confirmação da senha não confere.',
+  'form.newPassword': 'Nova senha',
+  'form.newPasswordConfirm': 'Confirme a nova senha',
+  'form.newPasswordRequired': 'Informe a nova senha.',
+  'form.newPasswordConfirmRequired': 'Confirme a nova senha.',
+  'form.oldPassword': 'Senha antiga',
+  'form.timeInvalid': 'Informe o horário no formato HH:MM.',
+  'form.timePlaceholder': 'HH:MM',
+
+  'signIn.title': 'Acesse sua conta',
+  'signIn.slogan': 'Treine sua mente e o seu corpo',
+  'signIn.backgroundAlt': 'Pessoas treinando',
+  'signIn.accountsTitle': 'Contas neste aparelho',
+  'signIn.submit': 'Acessar',
+  'signIn.forgotPassword': 'Esqueci minha senha',
+  'signIn.socialDivider': 'ou continue com',
+  'signIn.google': 'Entrar com Google',
+  'signIn.noAccount': 'Ainda não tem acesso?',
+  'signIn.createAccount': 'Criar conta',
+  'signIn.error': 'Não foi possível entrar. Tente novamente mais tarde',
+  'signIn.accountSwitchError': 'Não foi possível acessar essa conta.',
+
+  'signUp.title': 'Crie sua conta',
+  'signUp.submit': 'Criar e acessar',
+  'signUp.backToSignIn': 'Voltar para o login',
+  'signUp.error': 'Não foi possível criar a conta. Tente novamente mais tarde.',
+
+  'forgotPassword.title': 'Recuperar senha',
+  'forgotPassword.description': 'Informe o e-mail da sua conta e enviaremos um código para redefinir a senha.',
+  'forgotPassword.submit': 'Enviar código',
+  'forgotPassword.error': 'Não foi possível enviar o código. Tente novamente mais tarde.',
+
+  'resetCode.title': 'Informe o código',
+  'resetCode.description': 'Enviamos um código de {{length}} dígitos para {{email}}.',
+  'resetCode.code': 'Código',
+  'resetCode.codeRequired': 'Informe o código.',
+  'resetCode.codeInvalid': 'O código deve ter {{length}} dígitos.',
+  'resetCode.submit': 'Validar código',
+  'resetCode.resend': 'Reenviar código',
+  'resetCode.resent': 'Enviamos um novo código para o seu e-mail.',
+  'resetCode.resendError': 'Não foi possível reenviar o código. Tente novamente mais tarde.',
+  'resetCode.error': 'Não foi possível validar o código. Tente novamente.',
+
+  'resetPassword.title': 'Crie uma nova senha',
+  'resetPassword.submit': 'Redefinir e acessar',
+  'resetPassword.error': 'Não foi possível redefinir a senha. Solicite um novo código.',
+
+  'profile.title': 'Perfil',
+  'profile.photoAlt': 'Foto de {{name}}',
+  'profile.changePhoto': 'Alterar foto',
+  'profile.photoOptionsTitle': 'Foto do perfil',
+  'profile.photoCamera': 'Tirar foto',
+  'profile.photoLibrary': 'Escolher da galeria',
+  'profile.photoRemove': 'Remover foto',
+  'profile.cameraPermissionDenied': 'Permita o acesso à câmera para tirar a foto.',
+  'profile.photoUpdated': 'Foto atualizada',
+  'profile.photoUpdateError': 'Não foi possível atualizar a foto.',
+  'profile.photoRemoved': 'Foto removida',
+  'profile.photoRemoveError': 'Não foi possível remover a foto.',
+  'profile.changePassword': 'Alterar senha',
+  'profile.submit': 'Atualizar',
+  'profile.updated': 'Perfil atualizado com sucesso!',
+  'profile.updateError': 'Não foi possível atualizar os dados. Tente novamente mais tarde.',
+  'profile.identitiesTitle': 'Contas conectadas',
+  'profile.identitiesDescription': 'Conecte uma conta para entrar sem digitar a senha.',
+  'profile.identityLink': 'Conectar conta {{provider}}',
+  'profile.identityLinked': 'Conta {{provider}} conectada.',
+  'profile.identityLinkError': 'Não foi possível conectar a conta {{provider}}.',
+  'profile.languageTitle': 'Idioma',
+  'profile.languageSystem': 'Sistema',
+  'profile.languageError': 'Não foi possível alterar o idioma.',
+  'profile.themeTitle': 'Tema',
+  'profile.themeSystem': 'Sistema',
+  'profile.themeLight': 'Claro',
+  'profile.themeDark': 'Escuro',
+  'profile.themeError': 'Não foi possível alterar o tema.',
+  'profile.securityTitle': 'Segurança',
+  'profile.appLock': 'Bloquear com biometria ou PIN',
+  'profile.appLockTimeout': 'Bloquear após sair do app',
+  'profile.appLockImmediately': 'Imediato',
+  'profile.appLockMinutes': '{{minutes}} min',
+  'profile.appLockError': 'Não foi possível atualizar o bloqueio do app.',
+  'profile.dataTitle': 'Seus dados',
+  'profile.dataExportJson': 'Perfil e histórico (JSON)',
+  'profile.dataExportCsv': 'Perfil e histórico em planilha (CSV)',
+  'profile.dataExportError': 'Não foi possível exportar os seus dados.',
+  'profile.deleteAccount': 'Excluir conta',
+  'profile.deleteAccountError': 'Não foi possível excluir a conta. Tente novamente mais tarde.',
+
+  'home.search': 'Buscar exercício',
+  'home.favorites': 'Favoritos',
+  'home.results': 'Resultados',
+  'home.exercises': 'Exercício',
+  'home.empty': 'Nenhum exercício encontrado.',
+  'home.favoritesEmpty': 'Você ainda não favoritou nenhum exercício.',
+  'home.downloading': 'Baixando {{done}}/{{total}}',
+  'home.downloadSuccess': 'Exercícios disponíveis offline.',
+  'home.downloadPartial': 'Alguns exercícios não puderam ser baixados. Tente novamente.',
+  'home.downloadError': 'Não foi possível baixar os exercícios.',
+  'home.groupsError': 'Não foi possível carregar os grupos musculares.',
+  'home.exercisesError': 'Não foi possível carregar os exercícios.',
+  'home.greeting': 'Olá,',
+  'home.title': 'Início',
+  'home.download': 'Baixar exercícios para uso offline',
+
+  'favorites.syncRejected': { one: 'Não foi possível sincronizar uma alteração de favorito. Ela foi descartada.', other: 'Não foi possível sincronizar {{count}} alterações de favoritos. Elas foram descartadas.' },
+  'favorites.syncError': 'Não foi possível carregar seus favoritos.',
+
+  'exercise.series': { one: '{{count}} série', other: '{{count}} séries' },
+  'exercise.repetitions': { one: '{{count}} repetição', other: '{{count}} repetições' },
+  'exercise.imageAlt': 'Imagem do exercício {{name}}',
+  'exercise.planStep': 'exercício {{step}} de {{total}}',
+  'exercise.startSession': 'Iniciar sessão',
+  'exercise.markAsDone': 'Marcar como realizado',
+  'exercise.registered': 'Parabéns! Exercício registrado no seu histórico',
+  'exercise.registerPending': 'Exercício salvo! Ele será sincronizado com o seu histórico assim que houver conexão',
+  'exercise.planCompleted': '{{plan}} concluído!',
+  'exercise.shareMessage': '{{name}} no Ignite Gym: {{url}}',
+  'exercise.shareError': 'Não foi possível compartilhar o exercício.',
+  'exercise.share': 'Compartilhar exercício',
+  'exercise.favoriteAdd': 'Adicionar aos favoritos',
+  'exercise.favoriteRemove': 'Remover dos favoritos',
+  'exercise.loadError': 'Não foi possível carregar os detalhes do exercício.',
+  'exercise.planLoadError': 'Não foi possível carregar o treino.',
+  'exercise.registerError': 'Não foi possível registrar o exercício.',
+
+  'history.title': 'Histórico de Exercícios',
+  'history.statistics': 'Ver estatísticas',
+  'history.pendingSection': 'Aguardando sincronização',
+  'history.empty': 'Não há exercícios registrados ainda.\nVamos fazer exercícios hoje?',
+  'history.editTime': 'Corrigir horário',
+  'history.delete': 'Excluir registro',
+  'history.deleted': 'Registro excluído.',
+  'history.timeUpdated': 'Horário corrigido para {{hour}}.',
+  'history.loadError': 'Não foi possível carregar o histórico.',
+  'history.loadMoreError': 'Não foi possível carregar mais registros.',
+  'history.deleteError': 'Não foi possível excluir o registro.',
+  'history.timeUpdateError': 'Não foi possível corrigir o horário.',
+  'history.notSynced': 'Ainda não sincronizado',
+  'history.syncRejected': { one: 'Não foi possível sincronizar {{name}}. O registro foi descartado.', other: 'Não foi possível sincronizar {{count}} registros. Eles foram descartados.' },
+  'history.actions': 'Editar ou excluir',
+
+  'weekdays.sunday': 'Dom',
+  'weekdays.monday': 'Seg',
+  'weekdays.tuesday': 'Ter',
+  'weekdays.wednesday': 'Qua',
+  'weekdays.thursday': 'Qui',
+  'weekdays.friday': 'Sex',
+  'weekdays.saturday': 'Sáb',
+
+  'workoutSession.currentSet': 'Série {{set}} de {{total}}',
+  'workoutSession.set': 'Série {{set}}',
+  'workoutSession.plannedRepetitions': { one: '{{count}} repetição prevista', other: '{{count}} repetições previstas' },
+  'workoutSession.rest': 'Descanso',
+  'workoutSession.skipRest': 'Pular descanso',
+  'workoutSession.repetitions': 'Repetições',
+  'workoutSession.load': 'Carga (kg)',
+  'workoutSession.finishSet': 'Concluir série',
+  'workoutSession.finishExercise': 'Concluir exercício',
+  'workoutSession.restDuration': 'Tempo de descanso',
+  'workoutSession.cancel': 'Cancelar sessão',
+
+  'deleteAccount.description': 'Sua conta, seu histórico e seus treinos serão apagados permanentemente. Confirme sua senha para continuar.',
+  'deleteAccount.submit': 'Excluir minha conta',
+
+  'syncStatus.offline': 'Você está offline.',
+  'syncStatus.updateFailed': 'Não foi possível atualizar.',
+  'syncStatus.syncedAt': 'Última sincronização em {{date}}',
+
+  'plans.exercisesCount': { one: '{{count}} exercício', other: '{{count}} exercícios' },
+  'plans.today': 'Treino de hoje',
+  'plans.title': 'Treinos',
+  'plans.namePlaceholder': 'Nome do novo treino (ex.: Treino A)',
+  'plans.nameRequired': 'Informe o nome do treino.',
+  'plans.create': 'Criar treino',
+  'plans.myPlans': 'Meus treinos',
+  'plans.empty': 'Você ainda não criou nenhum treino.\nQue tal montar o seu treino A?',
+  'plans.loadError': 'Não foi possível carregar os treinos.',
+  'plans.createError': 'Não foi possível criar o treino.',
+
+  'filters.title': 'Filtros',
+  'filters.groups': 'Grupos musculares',
+  'filters.groupsRequired': 'Selecione pelo menos um grupo muscular.',
+  'filters.min': 'Mínimo',
+  'filters.max': 'Máximo',
+  'filters.sort': 'Ordenar por',
+  'filters.sortName': 'Nome',
+  'filters.sortSeries': 'Séries',
+  'filters.sortRepetitions': 'Repetições',
+  'filters.apply': 'Aplicar filtros',
+  'filters.clear': 'Limpar',
+
+  'plan.addExercise': 'Adicionar exercício',
+  'plan.name': 'Nome do treino',
+  'plan.exercises': 'Exercícios',
+  'plan.start': 'Iniciar treino',
+  'plan.remove': 'Excluir treino',
+  'plan.saved': 'Treino salvo com sucesso!',
+  'plan.saveError': 'Não foi possível salvar o treino.',
+  'plan.startError': 'Não foi possível iniciar o treino.',
+  'plan.removeError': 'Não foi possível excluir o treino.',
+  'plan.removeDescription': '"{{name}}" e sua programação serão excluídos permanentemente.',
+  'plan.removeSubmit': 'Excluir',
+  'plan.moveUp': 'Mover para cima',
+  'plan.moveDown': 'Mover para baixo',
+  'plan.removeExercise': 'Remover exercício',
+  'plan.increase': 'Aumentar',
+  'plan.decrease': 'Diminuir',
+
+  'statistics.title': 'Estatísticas',
+  'statistics.range4Weeks': '4 semanas',
+  'statistics.range3Months': '3 meses',
+  'statistics.range12Months': '12 meses',
+  'statistics.workoutDays': 'Dias de treino',
+  'statistics.currentStreak': 'Sequência atual',
+  'statistics.longestStreak': 'Maior sequência',
+  'statistics.streakDays': '{{days}} d',
+  'statistics.workoutsPerWeek': 'Treinos por semana',
+  'statistics.frequency': 'Frequência',
+  'statistics.volumeByGroup': 'Volume por grupo muscular',
+  'statistics.empty': 'Nenhum exercício registrado neste período.',
+  'statistics.topExercises': 'Mais realizados',
+  'statistics.loadError': 'Não foi possível carregar as estatísticas.',
+
+  'lock.title': 'App bloqueado',
+  'lock.description': 'Use sua biometria ou o PIN do aparelho para continuar.',
+  'lock.lastAttempt': 'Última tentativa antes de sair da conta.',
+  'lock.remainingAttempts': { one: '{{count}} tentativa restante.', other: '{{count}} tentativas restantes.' },
+  'lock.unlock': 'Desbloquear',
+  'lock.signOut': 'Sair da conta',
+
+  'developerSettings.title': 'Configurações de desenvolvedor',
+  'developerSettings.environment': 'Ambiente do build: {{environment}}',
+  'developerSettings.servers': 'Servidores',
+  'developerSettings.customUrl': 'URL personalizada',
+  'developerSettings.urlInvalid': 'Informe uma URL válida, ex.: http://192.168.0.10:3333',
+  'developerSettings.save': 'Salvar servidor',
+  'developerSettings.reset': 'Restaurar padrão',
+  'developerSettings.saved': 'Servidor atualizado.'
+}
+
+export type Translations = typeof ptBR
+
+export type TranslationKey = keyof Translations
\ No newline at end of file
@@ -0,0 +1,108 @@
+type LinkingModule = typeof import('@routes/linking')
+
+const mockUrlHandlers: Array<(event: { url: string }) => void> = []
+const mockGetInitialURL = jest.fn()
+
+jest.mock('expo-linking', () => ({
+  createURL: (path: string) => `ignitegym://${path.replace(/^\//, '')}`,
+  parse: (url: string) => ({ path: url.replace(/^[a-z]+:\/\//, '') }),
+  getInitialURL: () => mockGetInitialURL(),
+  addEventListener: (_: string, handler: (event: { url: string }) => void) => {
+    mockUrlHandlers.push(handler)
+
+    return { remove: () => mockUrlHandlers.splice(mockUrlHandlers.indexOf(handler), 1) }
+  }
+}))
+
+jest.mock('expo-notifications', () => ({
+  addNotificationResponseReceivedListener: () => ({ remove: jest.fn() }),
+  getLastNotificationResponseAsync: () => Promise.resolve(null)
+}))
+
+jest.mock('@services/reminders', () => ({
+  notificationUrl: () => null
+}))
+
+function urlOpen(url: string) {
+  mockUrlHandlers.forEach(handler => handler({ url }))
+}
+
+describe('linking', () => {
+  let linkingModule: LinkingModule
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockUrlHandlers.length = 0
+    mockGetInitialURL.mockResolvedValue(null)
+
+    jest.isolateModules(() => {
+      linkingModule = require('@routes/linking')
+    })
+  })
+
+  it('holds an app link opened while signed out and resumes it after sign in', () => {
+    const { linking, linkingPendingResume, linkingSessionSet } = linkingModule
+    const listener = jest.fn()
+
+    linkingSessionSet(false)
+    linking.subscribe?.(listener)
+
+    urlOpen('ignitegym://exercise/42')
+
+    expect(listener).not.toHaveBeenCalled()
+
+    linkingPendingResume()
+
+    expect(listener).not.toHaveBeenCalled()
+
+    linkingSessionSet(true)
+    linkingPendingResume()
+
+    expect(listener).toHaveBeenCalledWith('ignitegym://exercise/42')
+
+    linkingPendingResume()
+
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('holds the initial app link of a signed out cold start until sign in', async () => {
+    const { linking, linkingPendingResume, linkingSessionSet } = linkingModule
+    const listener = jest.fn()
+
+    mockGetInitialURL.mockResolvedValue('ignitegym://history')
+
+    linkingSessionSet(false)
+
+    expect(await linking.getInitialURL?.()).toBeNull()
+
+    linking.subscribe?.(listener)
+    linkingSessionSet(true)
+    linkingPendingResume()
+
+    expect(listener).toHaveBeenCalledWith('ignitegym://history')
+  })
+
+  it('lets auth links through while signed out', () => {
+    const { linking, linkingSessionSet } = linkingModule
+    const listener = jest.fn()
+
+    linkingSessionSet(false)
+    linking.subscribe?.(listener)
+
+    urlOpen('ignitegym://reset-password?email=maria%40email.com&code=123456')
+
+    expect(listener).toHaveBeenCalledWith('ignitegym://reset-password?email=maria%40email.com&code=123456')
+  })
+
+  it('passes app links straight through while signed in', () => {
+    const { linking, linkingSessionSet } = linkingModule
+    const listener = jest.fn()
+
+    linkingSessionSet(true)
+    linking.subscribe?.(listener)
+
+    urlOpen('ignitegym://exercise/7')
+
+    expect(listener).toHaveBeenCalledWith('ignitegym://exercise/7')
+  })
+})
\ No newline at end of file
@@ -5,19 +5,36 @@ import { createBottomTabNavigator, BottomTabNavigationProp } from '@react-naviga
 import HomeSvg from '@assets/home.svg'
 import HistorySvg from '@assets/history.svg'
 import ProfileSvg from '@assets/profile.svg'
+import PlansSvg from '@assets/plans.svg'
 
 import { Home } from '@screens/Home'
 import { Profile } from '@screens/Profile'
 import { History } from '@screens/History'
 import { Exercise } from '@screens/Exercise'
+import { Plans } from '@screens/Plans'
+import { Plan } from '@screens/Plan'
+import { Statistics } from '@screens/Statistics'
+import { DeveloperSettings } from '@screens/DeveloperSettings'
+
+import { useHistoryOutboxSync } from '@hooks/useHistoryOutboxSync'
+import { useLocale } from '@hooks/useLocale'
+import { useInactivityNudge } from '@hooks/useInactivityNudge'
 
 type AppRoutes = {
   home: undefined
+  plans: undefined
   history: undefined
   profile: undefined
   exercise: {
     exerciseId: string
+    planId?: string
+    planStep?: number
+  }
+  plan: {
+    planId: string
   }
+  statistics: undefined
+  developerSettings: undefined
 }
 
 export type AppNavigationRoutesProps = BottomTabNavigationProp<AppRoutes>
@@ -26,9 +43,13 @@ const { Navigator, Screen } = createBottomTabNavigator<AppRoutes>()
 
 export function AppRoutes() {
   const { sizes, colors } = useTheme()
+  const { t } = useLocale()
 
   const iconSize = sizes[6]
 
+  useHistoryOutboxSync()
+  useInactivityNudge()
+
   return (
     <Navigator screenOptions={{
       headerShown: false,
@@ -47,6 +68,7 @@ export function AppRoutes() {
         name='home'
         component={Home}
         options={{
+          tabBarAccessibilityLabel: t('home.title'),
           tabBarIcon: ({ color }) => (
             <HomeSvg
               fill={color}
@@ -57,10 +79,26 @@ export function AppRoutes() {
         }}
       />
 
+      <Screen
+        name='plans'
+        component={Plans}
+        options={{
+          tabBarAccessibilityLabel: t('plans.title'),
+          tabBarIcon: ({ color }) => (
+            <PlansSvg
+              fill={color}
+              width={iconSize}
+              height={iconSize}
+            />
+          )
+        }}
+      />
+
       <Screen
         name='history'
         component={History}
         options={{
+          tabBarAccessibilityLabel: t('history.title'),
           tabBarIcon: ({ color }) => (
             <HistorySvg
               fill={color}
@@ -75,6 +113,7 @@ export function AppRoutes() {
         name='profile'
         component={Profile}
         options={{
+          tabBarAccessibilityLabel: t('profile.title'),
           tabBarIcon: ({ color }) => (
             <ProfileSvg
               fill={color}
@@ -90,6 +129,24 @@ export function AppRoutes() {
         component={Exercise}
         options={{ tabBarButton: () => null }}
       />
+
+      <Screen
+        name='plan'
+        component={Plan}
+        options={{ tabBarButton: () => null }}
+      />
+
+      <Screen
+        name='statistics'
+        component={Statistics}
+        options={{ tabBarButton: () => null }}
+      />
+
+      <Screen
+        name='developerSettings'
+        component={DeveloperSettings}
+        options={{ tabBarButton: () => null }}
+      />
     </Navigator>
   )
 }
\ No newline at end of file
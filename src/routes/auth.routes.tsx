@@ -2,10 +2,23 @@ import { createNativeStackNavigator, NativeStackNavigationProp } from '@react-na
 
 import { SignIn } from '@screens/SignIn'
 import { SignUp } from '@screens/SignUp'
+import { ForgotPassword } from '@screens/ForgotPassword'
+import { ResetCode } from '@screens/ResetCode'
+import { ResetPassword } from '@screens/ResetPassword'
+import { DeveloperSettings } from '@screens/DeveloperSettings'
 
 type AuthRoutes = {
   signIn: undefined
   signUp: undefined
+  forgotPassword: undefined
+  resetCode: {
+    email: string
+  }
+  resetPassword: {
+    email: string
+    code: string
+  }
+  developerSettings: undefined
 }
 
 export type AuthNavigatorRoutesProps = NativeStackNavigationProp<AuthRoutes>
@@ -24,6 +37,26 @@ export function AuthRoutes() {
         name='signUp'
         component={SignUp}
       />
+
+      <Screen
+        name='forgotPassword'
+        component={ForgotPassword}
+      />
+
+      <Screen
+        name='resetCode'
+        component={ResetCode}
+      />
+
+      <Screen
+        name='resetPassword'
+        component={ResetPassword}
+      />
+
+      <Screen
+        name='developerSettings'
+        component={DeveloperSettings}
+      />
     </Navigator>
   )
 }
\ No newline at end of file
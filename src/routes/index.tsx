@@ -1,29 +1,82 @@
-import { useContext } from 'react'
-import { useTheme, Box } from 'native-base'
-import { NavigationContainer, DefaultTheme } from '@react-navigation/native'
+import { useEffect, useRef } from 'react'
+import { useTheme, useColorMode, Box } from 'native-base'
+import { NavigationContainer, NavigationState, DarkTheme, DefaultTheme, Theme } from '@react-navigation/native'
 
 import { useAuth } from '@hooks/useAuth'
+import { useAppLock } from '@hooks/useAppLock'
+import { useLocale } from '@hooks/useLocale'
+import { useColorScheme } from '@hooks/useColorScheme'
+import { FavoritesContextProvider } from '@contexts/FavoritesContext'
 
 import { AuthRoutes } from './auth.routes'
 import { AppRoutes } from './app.routes'
+import { linking, linkingPendingResume, linkingPendingSubscribe, linkingSessionSet } from './linking'
 import { Loading } from '@components/Loading'
+import { Lock } from '@screens/Lock'
 
 export function Routes() {
   const { colors } = useTheme()
 
   const { user, isLoadingUserStorageData } = useAuth()
+  const { isLocked, isLoadingAppLock } = useAppLock()
+  const { isLoadingLocale } = useLocale()
+  const { colorScheme, isLoadingColorScheme } = useColorScheme()
+  const { setColorMode } = useColorMode()
 
-  const theme = DefaultTheme
-  theme.colors.background = colors.gray[700]
+  const navigationState = useRef<{ userId: string, state?: NavigationState }>({ userId: '' })
 
-  if (isLoadingUserStorageData) {
+  const navigationTheme = colorScheme === 'light' ? DefaultTheme : DarkTheme
+
+  const theme: Theme = {
+    ...navigationTheme,
+    colors: {
+      ...navigationTheme.colors,
+      primary: colors.green[500],
+      background: colors.gray[700],
+      card: colors.gray[600],
+      text: colors.gray[100],
+      border: colors.gray[500]
+    }
+  }
+
+  useEffect(() => {
+    linkingSessionSet(!!user.id)
+
+    if (user.id && !isLocked) linkingPendingResume()
+  }, [user.id, isLocked])
+
+  useEffect(() => {
+    if (user.id && isLocked) return linkingPendingSubscribe()
+  }, [user.id, isLocked])
+
+  useEffect(() => {
+    setColorMode(colorScheme)
+  }, [colorScheme])
+
+  if (isLoadingUserStorageData || isLoadingAppLock || isLoadingLocale || isLoadingColorScheme) {
     return <Loading />
   }
 
+  if (user.id && isLocked) {
+    return <Lock />
+  }
+
   return (
     <Box flex={1} bg='gray.700'>
-      <NavigationContainer theme={theme} >
-        {user.id ? <AppRoutes /> : <AuthRoutes />}
+      <NavigationContainer
+        theme={theme}
+        linking={linking}
+        initialState={navigationState.current.userId === user.id ? navigationState.current.state : undefined}
+        onStateChange={state => {
+          navigationState.current = { userId: user.id, state }
+        }}
+      >
+        {user.id ?
+          <FavoritesContextProvider>
+            <AppRoutes />
+          </FavoritesContextProvider>
+          : <AuthRoutes />
+        }
       </NavigationContainer>
     </Box>
   )
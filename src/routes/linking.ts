@@ -0,0 +1,107 @@
+import * as Linking from 'expo-linking'
+import * as Notifications from 'expo-notifications'
+import { LinkingOptions } from '@react-navigation/native'
+
+import { WEB_URL } from '@utils/environment'
+import { notificationUrl } from '@services/reminders'
+
+const APP_ROUTE_PATHS = ['home', 'history', 'profile', 'exercise']
+
+let isSignedIn = false
+let hasHandledInitialUrl = false
+let pendingUrl: string | null = null
+let urlListener: ((url: string) => void) | null = null
+
+function isAppRouteUrl(url: string) {
+  const path = Linking.parse(url).path ?? ''
+
+  return APP_ROUTE_PATHS.some(routePath => path === routePath || path.startsWith(`${routePath}/`))
+}
+
+function urlFilter(url: string | null) {
+  if (url && !isSignedIn && isAppRouteUrl(url)) {
+    pendingUrl = url
+    return null
+  }
+
+  return url
+}
+
+export function linkingSessionSet(signedIn: boolean) {
+  isSignedIn = signedIn
+}
+
+export function linkingPendingResume() {
+  if (!isSignedIn || !pendingUrl || !urlListener) return
+
+  urlListener(pendingUrl)
+  pendingUrl = null
+}
+
+export function linkingPendingSubscribe() {
+  const linkingSubscription = Linking.addEventListener('url', ({ url }) => {
+    pendingUrl = url
+  })
+
+  const notificationSubscription = Notifications.addNotificationResponseReceivedListener(response => {
+    pendingUrl = notificationUrl(response) ?? pendingUrl
+  })
+
+  return () => {
+    linkingSubscription.remove()
+    notificationSubscription.remove()
+  }
+}
+
+export const linking: LinkingOptions<ReactNavigation.RootParamList> = {
+  prefixes: [Linking.createURL('/'), WEB_URL],
+  config: {
+    screens: {
+      signIn: 'sign-in',
+      signUp: 'sign-up',
+      forgotPassword: 'forgot-password',
+      resetPassword: 'reset-password',
+      home: 'home',
+      history: 'history',
+      profile: 'profile',
+      exercise: 'exercise/:exerciseId'
+    }
+  },
+  async getInitialURL() {
+    if (isSignedIn && pendingUrl) {
+      const url = pendingUrl
+      pendingUrl = null
+
+      return url
+    }
+
+    if (hasHandledInitialUrl) return null
+
+    hasHandledInitialUrl = true
+
+    const url = await Linking.getInitialURL() ?? notificationUrl(await Notifications.getLastNotificationResponseAsync())
+
+    return urlFilter(url)
+  },
+  subscribe(listener) {
+    urlListener = listener
+
+    function handleUrl(url: string | null) {
+      const urlAllowed = urlFilter(url)
+
+      if (urlAllowed) listener(urlAllowed)
+    }
+
+    const linkingSubscription = Linking.addEventListener('url', ({ url }) => handleUrl(url))
+
+    const notificationSubscription = Notifications.addNotificationResponseReceivedListener(response => {
+      handleUrl(notificationUrl(response))
+    })
+
+    return () => {
+      urlListener = null
+      linkingSubscription.remove()
+      notificationSubscription.remove()
+    }
+  }
+}
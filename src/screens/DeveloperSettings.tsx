@@ -0,0 +1,153 @@
+import { useState } from 'react'
+import { TouchableOpacity } from 'react-native'
+import { Heading, Icon, Pressable, ScrollView, Text, VStack } from 'native-base'
+import { Feather } from '@expo/vector-icons'
+import { useNavigation } from '@react-navigation/native'
+
+import { api } from '@services/api'
+import { useAuth } from '@hooks/useAuth'
+import { useLocale } from '@hooks/useLocale'
+import { useToast } from '@hooks/useToast'
+import { API_URLS, APP_ENV, AppEnvironment, DEFAULT_API_URL } from '@utils/environment'
+import { touchTargetHitSlop } from '@utils/accessibility'
+import { storageApiUrlRemove, storageApiUrlSave } from '@storage/storageApiUrl'
+
+import { Input } from '@components/Input'
+import { Button } from '@components/Button'
+
+const URL_PATTERN = /^https?:\/\/[^\s/]+(:\d+)?(\/\S*)?$/
+
+export function DeveloperSettings() {
+  const [apiUrl, setApiUrl] = useState(api.defaults.baseURL ?? DEFAULT_API_URL)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+
+  const navigation = useNavigation()
+  const toast = useToast()
+  const { t } = useLocale()
+
+  const { user, signOut } = useAuth()
+
+  function handleGoBack() {
+    navigation.goBack()
+  }
+
+  async function applyApiUrl(url: string) {
+    const hasChanged = url !== api.defaults.baseURL
+
+    if (url === DEFAULT_API_URL) {
+      await storageApiUrlRemove()
+    } else {
+      await storageApiUrlSave(url)
+    }
+
+    api.defaults.baseURL = url
+
+    toast.show({
+      title: t('developerSettings.saved'),
+      placement: 'top',
+      bgColor: 'green.700'
+    })
+
+    if (hasChanged && user.id) {
+      await signOut()
+    } else {
+      handleGoBack()
+    }
+  }
+
+  async function handleSave() {
+    const url = apiUrl.trim().replace(/\/+$/, '')
+
+    if (!URL_PATTERN.test(url)) {
+      return setErrorMessage(t('developerSettings.urlInvalid'))
+    }
+
+    setErrorMessage(null)
+    await applyApiUrl(url)
+  }
+
+  return (
+    <VStack flex={1}>
+      <VStack px={8} bg='gray.600' pt={12} pb={6}>
+        <TouchableOpacity
+          onPress={handleGoBack}
+          hitSlop={touchTargetHitSlop(24)}
+          accessibilityRole='button'
+          accessibilityLabel={t('common.back')}
+        >
+          <Icon
+            as={Feather}
+            name='arrow-left'
+            color='green.500'
+            size={6}
+          />
+        </TouchableOpacity>
+
+        <Heading color='gray.100' fontSize='lg' mt={4} fontFamily='heading'>
+          {t('developerSettings.title')}
+        </Heading>
+
+        <Text color='gray.200' fontSize='sm' mt={1}>
+          {t('developerSettings.environment', { environment: APP_ENV })}
+        </Text>
+      </VStack>
+
+      <ScrollView px={8} contentContainerStyle={{ paddingBottom: 36 }}>
+        <Heading color='gray.200' fontSize='md' fontFamily='heading' mt={8} mb={3}>
+          {t('developerSettings.servers')}
+        </Heading>
+
+        {(Object.keys(API_URLS) as AppEnvironment[]).map(environment => (
+          <Pressable
+            key={environment}
+            bg='gray.600'
+            rounded='md'
+            px={4}
+            py={3}
+            mb={3}
+            borderWidth={apiUrl === API_URLS[environment] ? 1 : 0}
+            borderColor='green.500'
+            onPress={() => setApiUrl(API_URLS[environment])}
+            accessibilityRole='button'
+            accessibilityState={{ selected: apiUrl === API_URLS[environment] }}
+          >
+            <Text color='gray.100' fontSize='md' textTransform='capitalize'>
+              {environment}
+            </Text>
+
+            <Text color='gray.300' fontSize='xs'>
+              {API_URLS[environment]}
+            </Text>
+          </Pressable>
+        ))}
+
+        <Heading color='gray.200' fontSize='md' fontFamily='heading' mt={5} mb={3}>
+          {t('developerSettings.customUrl')}
+        </Heading>
+
+        <Input
+          bg='gray.600'
+          placeholder='http://192.168.0.10:3333'
+          autoCapitalize='none'
+          autoCorrect={false}
+          keyboardType='url'
+          value={apiUrl}
+          onChangeText={setApiUrl}
+          errorMessage={errorMessage}
+        />
+
+        <Button
+          title={t('developerSettings.save')}
+          mb={3}
+          onPress={handleSave}
+        />
+
+        <Button
+          title={t('developerSettings.reset')}
+          variant='outline'
+          onPress={() => applyApiUrl(DEFAULT_API_URL)}
+        />
+      </ScrollView>
+    </VStack>
+  )
+}
\ No newline at end of file
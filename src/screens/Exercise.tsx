@@ -1,105 +1,243 @@
 import { useEffect, useState } from 'react'
-import { Box, HStack, Heading, Icon, Image, Text, VStack, ScrollView, useToast } from 'native-base'
-import { TouchableOpacity } from 'react-native'
-import { Feather } from '@expo/vector-icons'
+import { Box, HStack, Heading, Icon, Text, VStack, ScrollView } from 'native-base'
+import { Share, TouchableOpacity } from 'react-native'
+import { Feather, MaterialIcons } from '@expo/vector-icons'
 
 import { useNavigation, useRoute } from '@react-navigation/native'
 import { AppNavigationRoutesProps } from '@routes/app.routes'
 
-import { api } from '@services/api'
-import { AppError } from '@utils/AppError'
+import { exercisesService } from '@services/exercisesService'
+import { plansService } from '@services/plansService'
+import { exerciseDemoSource, exerciseShareUrl } from '@services/urls'
+import { historyOutboxRegister } from '@services/historyOutbox'
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { useLocale } from '@hooks/useLocale'
+import { useConnectivity } from '@hooks/useConnectivity'
+import { useFavorites } from '@hooks/useFavorites'
+import { useToast } from '@hooks/useToast'
+import { storageExerciseGet, storageExerciseSave } from '@storage/storageCatalog'
+import { touchTargetHitSlop } from '@utils/accessibility'
 
 import BodySvg from '@assets/body.svg'
 import SeriesSvg from '@assets/series.svg'
 import RepetitionsSvg from '@assets/repetitions.svg'
 import { Button } from '@components/Button'
 import { ExerciseDTO } from '@dtos/ExerciseDTO'
+import { ExerciseSetDTO } from '@dtos/ExerciseSetDTO'
+import { PlanDTO } from '@dtos/PlanDTO'
 import { Loading } from '@components/Loading'
+import { WorkoutSession } from '@components/WorkoutSession'
+import { SyncStatus } from '@components/SyncStatus'
+import { CachedImage } from '@components/CachedImage'
 
 type RouteParamsProps = {
   exerciseId: string
+  planId?: string
+  planStep?: number
 }
 
 export function Exercise() {
   const [sendingRegister, setSedingRegister] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [exercise, setExercise] = useState<ExerciseDTO>({} as ExerciseDTO)
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null)
+  const [isShowingCache, setIsShowingCache] = useState(false)
+  const [isSessionActive, setIsSessionActive] = useState(false)
+  const [plan, setPlan] = useState<PlanDTO | null>(null)
 
   const routes = useRoute()
-  const { exerciseId } = routes.params as RouteParamsProps
+  const { exerciseId, planId, planStep = 0 } = routes.params as RouteParamsProps
 
   const navigation = useNavigation<AppNavigationRoutesProps>()
   const toast = useToast()
+  const { handleError } = useErrorHandler()
+  const { t } = useLocale()
+  const { isFavorite, toggleFavorite } = useFavorites()
+
+  const { isOffline } = useConnectivity({ onReconnect: fetchExerciseDetails })
+
+  const planExercise = plan?.exercises[planStep]
+  const nextPlanExercise = plan?.exercises[planStep + 1]
+  const exerciseTarget = planExercise
+    ? { ...exercise, series: planExercise.series, repetitions: planExercise.repetitions }
+    : exercise
 
   function handleGoBack() {
     navigation.goBack()
   }
 
+  async function handleExerciseShare() {
+    try {
+      const url = exerciseShareUrl(exercise.id)
+
+      await Share.share({
+        message: t('exercise.shareMessage', { name: exercise.name, url }),
+        url
+      })
+    } catch (error) {
+      handleError(error, t('exercise.shareError'))
+    }
+  }
+
   async function fetchExerciseDetails() {
+    const exerciseCached = await storageExerciseGet(exerciseId)
+
+    if (exerciseCached) {
+      setExercise(exerciseCached.data)
+      setLastSyncedAt(exerciseCached.synced_at)
+    }
+
     try {
-      setIsLoading(true)
-      const response = await api.get(`/exercises/${exerciseId}`)
-      setExercise(response.data)
+      setIsLoading(!exerciseCached)
+      const exerciseFetched = await exercisesService.getById(exerciseId)
+      setExercise(exerciseFetched)
+
+      const { synced_at } = await storageExerciseSave(exerciseFetched)
+      setLastSyncedAt(synced_at)
+      setIsShowingCache(false)
     } catch (error) {
-      const isAppError = error instanceof AppError
-      const title = isAppError ? error.message : 'Não foi possível carregar os detalhes do exercício.'
+      if (exerciseCached) {
+        setIsShowingCache(true)
+        return
+      }
 
-      toast.show({
-        title,
-        placement: 'top',
-        bgColor: 'red.500'
-      })
+      setLastSyncedAt(null)
+      setIsShowingCache(false)
+
+      handleError(error, t('exercise.loadError'))
     } finally {
       setIsLoading(false)
     }
   }
 
-  async function handleExerciseHistoryRegister() {
+  async function fetchPlan() {
+    if (!planId) {
+      setPlan(null)
+      return
+    }
+
+    try {
+      setPlan(await plansService.getById(planId))
+    } catch (error) {
+      handleError(error, t('exercise.planLoadError'))
+    }
+  }
+
+  async function handleExerciseHistoryRegister(sets?: ExerciseSetDTO[]) {
     try {
       setSedingRegister(true)
 
-      await api.post('/history', { exercise_id: exerciseId })
+      const { isPending } = await historyOutboxRegister({
+        exercise_id: exerciseId,
+        name: exercise.name,
+        group: exercise.group,
+        sets
+      })
 
       toast.show({
-        title: 'Parabéns! Exercício registrado no seu histórico',
+        title: isPending
+          ? t('exercise.registerPending')
+          : t('exercise.registered'),
         placement: 'top',
         bgColor: 'green.700'
       })
 
+      setIsSessionActive(false)
+
+      if (plan && nextPlanExercise) {
+        return navigation.navigate('exercise', {
+          exerciseId: nextPlanExercise.exercise_id,
+          planId: plan.id,
+          planStep: planStep + 1
+        })
+      }
+
+      if (plan) {
+        toast.show({
+          title: t('exercise.planCompleted', { plan: plan.name }),
+          placement: 'top',
+          bgColor: 'green.700'
+        })
+      }
+
       navigation.navigate('history')
     } catch (error) {
-      const isAppError = error instanceof AppError
-      const title = isAppError ? error.message : 'Não foi possível registrar o exercício.'
-
-      toast.show({
-        title,
-        placement: 'top',
-        bgColor: 'red.500'
-      })
+      handleError(error, t('exercise.registerError'))
     } finally {
       setSedingRegister(false)
     }
   }
 
   useEffect(() => {
+    setIsSessionActive(false)
     fetchExerciseDetails()
-  }, [exerciseId])
+  }, [exerciseId, planStep])
+
+  useEffect(() => {
+    fetchPlan()
+  }, [planId])
 
   return (
     <VStack flex={1}>
 
       <VStack px={8} bg='gray.600' pt={12}>
-        <TouchableOpacity onPress={handleGoBack}>
-          <Icon
-            as={Feather}
-            name='arrow-left'
-            color='green.500'
-            size={6}
-          />
-        </TouchableOpacity>
-
-        <HStack justifyContent='space-between' mt={4} mb={8} alignItems='center'>
-          <Heading color='gray.100' fontSize='lg' flexShrink={1} fontFamily='heading'>
+        <HStack justifyContent='space-between' alignItems='center'>
+          <TouchableOpacity
+            onPress={handleGoBack}
+            hitSlop={touchTargetHitSlop(24)}
+            accessibilityRole='button'
+            accessibilityLabel={t('common.back')}
+          >
+            <Icon
+              as={Feather}
+              name='arrow-left'
+              color='green.500'
+              size={6}
+            />
+          </TouchableOpacity>
+
+          {!!exercise.id &&
+            <HStack alignItems='center'>
+              <TouchableOpacity
+                onPress={handleExerciseShare}
+                hitSlop={touchTargetHitSlop(24)}
+                accessibilityRole='button'
+                accessibilityLabel={t('exercise.share')}
+              >
+                <Icon
+                  as={Feather}
+                  name='share-2'
+                  color='green.500'
+                  size={6}
+                  mr={5}
+                />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                onPress={() => toggleFavorite(exercise)}
+                hitSlop={touchTargetHitSlop(24)}
+                accessibilityRole='button'
+                accessibilityLabel={isFavorite(exercise.id) ? t('exercise.favoriteRemove') : t('exercise.favoriteAdd')}
+              >
+                <Icon
+                  as={MaterialIcons}
+                  name={isFavorite(exercise.id) ? 'favorite' : 'favorite-border'}
+                  color='green.500'
+                  size={6}
+                />
+              </TouchableOpacity>
+            </HStack>
+          }
+        </HStack>
+
+        {plan &&
+          <Text color='green.500' fontSize='sm' mt={4}>
+            {plan.name} · {t('exercise.planStep', { step: planStep + 1, total: plan.exercises.length })}
+          </Text>
+        }
+
+        <HStack justifyContent='space-between' mt={plan ? 1 : 4} mb={8} alignItems='center'>
+          <Heading color='gray.100' fontSize='lg' flexShrink={1} fontFamily='heading' accessibilityRole='header'>
             {exercise.name}
           </Heading>
 
@@ -112,44 +250,66 @@ export function Exercise() {
           </HStack>
         </HStack>
       </VStack>
+
+      {(isOffline || isShowingCache) && <SyncStatus isOffline={isOffline} syncedAt={lastSyncedAt} />}
+
       {isLoading ? <Loading /> :
         <ScrollView showsVerticalScrollIndicator={false}>
 
           <VStack p={8}>
-            <Box rounded='lg' mb={3} overflow='hidden'>
-              <Image
-                w='full'
-                h={80}
-                source={{ uri: `${api.defaults.baseURL}/exercise/demo/${exercise.demo}` }}
-                alt='Nome do exercício'
-                resizeMode='cover'
-                rounded='lg'
-              />
-            </Box>
+            <CachedImage
+              source={exerciseDemoSource(exercise.demo, exercise.updated_at)}
+              alt={exercise.name}
+              w='full'
+              h={80}
+              rounded='lg'
+              mb={3}
+            />
 
             <Box bg='gray.600' rounded='md' pb={4} px={4}>
-              <HStack alignItems='center' justifyContent='space-around' mb={6} mt={5}>
-
-                <HStack>
-                  <SeriesSvg />
-                  <Text color='gray.200' ml='2'>
-                    {exercise.series} séries
-                  </Text>
-                </HStack>
-
-                <HStack>
-                  <RepetitionsSvg />
-                  <Text color='gray.200' ml='2'>
-                    {exercise.repetitions} repetições
-                  </Text>
-                </HStack>
-              </HStack>
-
-              <Button
-                title='Marcar como realizado'
-                onPress={handleExerciseHistoryRegister}
-                isLoading={sendingRegister}
-              />
+              {isSessionActive ?
+                <Box mt={5}>
+                  <WorkoutSession
+                    exercise={exerciseTarget}
+                    isFinishing={sendingRegister}
+                    onFinish={handleExerciseHistoryRegister}
+                    onCancel={() => setIsSessionActive(false)}
+                  />
+                </Box>
+                :
+                <>
+                  <HStack alignItems='center' justifyContent='space-around' mb={6} mt={5}>
+
+                    <HStack>
+                      <SeriesSvg />
+                      <Text color='gray.200' ml='2'>
+                        {t('exercise.series', { count: exerciseTarget.series })}
+                      </Text>
+                    </HStack>
+
+                    <HStack>
+                      <RepetitionsSvg />
+                      <Text color='gray.200' ml='2'>
+                        {t('exercise.repetitions', { count: exerciseTarget.repetitions })}
+                      </Text>
+                    </HStack>
+                  </HStack>
+
+                  <Button
+                    title={t('exercise.startSession')}
+                    variant='outline'
+                    mb={3}
+                    onPress={() => setIsSessionActive(true)}
+                    isDisabled={sendingRegister}
+                  />
+
+                  <Button
+                    title={t('exercise.markAsDone')}
+                    onPress={() => handleExerciseHistoryRegister()}
+                    isLoading={sendingRegister}
+                  />
+                </>
+              }
             </Box>
           </VStack>
         </ScrollView>
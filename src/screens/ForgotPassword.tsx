@@ -0,0 +1,133 @@
+import { useState } from 'react'
+
+import { VStack, Image, Text, Center, Heading, ScrollView, useTheme } from 'native-base'
+import { useNavigation } from '@react-navigation/native'
+import { useForm, Controller } from 'react-hook-form'
+
+import { passwordService } from '@services/passwordService'
+
+import * as yup from 'yup'
+import { yupResolver } from '@hookform/resolvers/yup'
+
+import { AuthNavigatorRoutesProps } from '@routes/auth.routes'
+
+import LogoSvg from '@assets/logo.svg'
+import BackgroundImg from '@assets/background.png'
+
+import { Input } from '@components/Input'
+import { Button } from '@components/Button'
+
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { useLocale } from '@hooks/useLocale'
+import { useColorScheme } from '@hooks/useColorScheme'
+
+type FormDataProps = {
+  email: string
+}
+
+export function ForgotPassword() {
+  const [isLoading, setIsLoading] = useState(false)
+
+  const { handleError } = useErrorHandler()
+  const { t } = useLocale()
+  const { colors } = useTheme()
+  const { colorScheme } = useColorScheme()
+  const navigation = useNavigation<AuthNavigatorRoutesProps>()
+
+  const forgotPasswordSchema = yup.object({
+    email: yup.string().required(t('form.emailRequired')).email(t('form.emailInvalid'))
+  })
+
+  const { control, handleSubmit, setError, formState: { errors } } = useForm<FormDataProps>({
+    resolver: yupResolver(forgotPasswordSchema)
+  })
+
+  function handleGoBack() {
+    navigation.goBack()
+  }
+
+  async function handleRequestReset({ email }: FormDataProps) {
+    try {
+      setIsLoading(true)
+      await passwordService.requestReset(email)
+
+      navigation.navigate('resetCode', { email })
+    } catch (error) {
+      handleError(error, t('forgotPassword.error'), setError)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ flexGrow: 1 }} showsVerticalScrollIndicator={false}>
+      <VStack flex={1} px={10}>
+        {colorScheme === 'dark' &&
+          <Image
+            source={BackgroundImg}
+            defaultSource={BackgroundImg}
+            alt={t('signIn.backgroundAlt')}
+            resizeMode='contain'
+            position='absolute'
+          />
+        }
+
+        <Center my={24}>
+
+          <LogoSvg color={colors.gray[100]} />
+
+          <Text color='gray.100' fontSize='sm'>
+            {t('signIn.slogan')}
+          </Text>
+        </Center>
+
+        <Center>
+          <Heading
+            color='gray.100'
+            fontSize='xl'
+            mb={2}
+            fontFamily='heading'
+          >
+            {t('forgotPassword.title')}
+          </Heading>
+
+          <Text color='gray.200' fontSize='sm' textAlign='center' mb={6}>
+            {t('forgotPassword.description')}
+          </Text>
+
+          <Controller
+            control={control}
+            name='email'
+            render={({ field: { value, onChange } }) => (
+              <Input
+                placeholder={t('form.email')}
+                keyboardType='email-address'
+                autoCapitalize='none'
+                value={value}
+                onChangeText={onChange}
+                onSubmitEditing={handleSubmit(handleRequestReset)}
+                returnKeyType='send'
+                errorMessage={errors.email?.message}
+              />
+            )}
+          />
+
+          <Button
+            title={t('forgotPassword.submit')}
+            isLoading={isLoading}
+            onPress={handleSubmit(handleRequestReset)}
+          />
+
+        </Center>
+
+        <Button
+          title={t('signUp.backToSignIn')}
+          variant='outline'
+          mt={12}
+          mb={2}
+          onPress={handleGoBack}
+        />
+      </VStack>
+    </ScrollView>
+  )
+}
@@ -1,75 +1,278 @@
-import { useCallback, useState } from 'react'
-import { Heading, SectionList, Text, useToast } from 'native-base'
+import { useCallback, useRef, useState } from 'react'
+import { Actionsheet, Heading, SectionList, Spinner, Text } from 'native-base'
 import { VStack } from 'native-base'
-import { useFocusEffect } from '@react-navigation/native'
+import { TouchableOpacity } from 'react-native'
+import { useFocusEffect, useNavigation } from '@react-navigation/native'
 
-import { api } from '@services/api'
+import { AppNavigationRoutesProps } from '@routes/app.routes'
+
+import { HistoryCursor, historyService } from '@services/historyService'
+import { historyOutboxFlush } from '@services/historyOutbox'
 import { HistoryByDayDTO } from '@dtos/HistoryByDayDTO'
+import { HistoryDTO } from '@dtos/HistoryDTO'
+import { StorageHistoryOutboxItem, storageHistoryOutboxGet } from '@storage/storageHistoryOutbox'
+import { useConnectivity } from '@hooks/useConnectivity'
+import { findHistoryItem, insertHistoryItem, mergeHistorySections, removeHistoryItem, replaceHistoryItem } from '@utils/historySections'
 
 import { ScreenHeader } from '@components/ScreenHeader'
 import { HistoryCard } from '@components/HistoryCard'
-import { AppError } from '@utils/AppError'
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { useLocale } from '@hooks/useLocale'
+import { useToast } from '@hooks/useToast'
 import { Loading } from '@components/Loading'
+import { UndoToast } from '@components/UndoToast'
+import { HistoryTimeModal } from '@components/HistoryTimeModal'
+
+const PENDING_SECTION_TITLE = 'pending'
+const UNDO_DURATION = 5000
+const HISTORY_PAGE_SIZE = 20
+
+function outboxItemToHistory({ id, name, group, created_at }: StorageHistoryOutboxItem): HistoryDTO {
+  const date = new Date(created_at)
+  const hour = `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+
+  return { id, name, group, hour, created_at }
+}
 
+function historyItemWithHour(item: HistoryDTO, hour: string): HistoryDTO {
+  const [hours, minutes] = hour.split(':').map(Number)
+  const date = new Date(item.created_at)
+  date.setHours(hours, minutes, 0, 0)
+
+  return { ...item, hour, created_at: date.toISOString() }
+}
 
 export function History() {
 
   const [isLoading, setIsLoading] = useState(true)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [isFetchingMore, setIsFetchingMore] = useState(false)
+  const [cursor, setCursor] = useState<HistoryCursor | null>(null)
+  const [hasMore, setHasMore] = useState(true)
   const [exercises, setExercises] = useState<HistoryByDayDTO[]>([])
+  const [pendingExercises, setPendingExercises] = useState<HistoryDTO[]>([])
+  const [itemSelected, setItemSelected] = useState<HistoryDTO | null>(null)
+  const [isEditingTime, setIsEditingTime] = useState(false)
+
+  const pendingDeletions = useRef<Record<string, ReturnType<typeof setTimeout>>>({})
 
+  const navigation = useNavigation<AppNavigationRoutesProps>()
   const toast = useToast()
+  const { handleError } = useErrorHandler()
+  const { t, formatDate } = useLocale()
+
+  useConnectivity({ onReconnect: () => fetchHistory() })
 
-  async function fetchHistory() {
+  const sections = pendingExercises.length > 0
+    ? [{ title: PENDING_SECTION_TITLE, data: pendingExercises }, ...exercises]
+    : exercises
+
+  async function fetchHistoryPage(cursorToFetch: HistoryCursor | null) {
+    const sections = await historyService.listPage(cursorToFetch, HISTORY_PAGE_SIZE)
+    const items = sections.flatMap(section => section.data)
+    const lastItem = items[items.length - 1]
+
+    setCursor(lastItem ? { id: lastItem.id, created_at: lastItem.created_at } : cursorToFetch)
+    setHasMore(items.length >= HISTORY_PAGE_SIZE)
+
+    return Object.keys(pendingDeletions.current).reduce(removeHistoryItem, sections)
+  }
+
+  async function fetchHistory(isRefresh = false) {
     try {
-      setIsLoading(true)
-      const response = await api.get('/history')
+      if (isRefresh) {
+        setIsRefreshing(true)
+      } else {
+        setIsLoading(true)
+      }
+
+      const { pending } = await historyOutboxFlush()
+      setPendingExercises(pending.map(outboxItemToHistory).reverse())
 
-      setExercises(response.data)
+      setExercises(await fetchHistoryPage(null))
     } catch (error) {
-      const isAppError = error instanceof AppError
-      const title = isAppError ? error.message : 'Não foi possível carregar o histórico.'
+      const pending = await storageHistoryOutboxGet()
+      setPendingExercises(pending.map(outboxItemToHistory).reverse())
 
-      toast.show({
-        title,
-        placement: 'top',
-        bgColor: 'red.500'
-      })
+      handleError(error, t('history.loadError'))
     } finally {
       setIsLoading(false)
+      setIsRefreshing(false)
     }
   }
 
+  async function handleLoadMore() {
+    if (!hasMore || isLoading || isRefreshing || isFetchingMore) return
+
+    try {
+      setIsFetchingMore(true)
+
+      const nextSections = await fetchHistoryPage(cursor)
+      setExercises(current => mergeHistorySections(current, nextSections))
+    } catch (error) {
+      handleError(error, t('history.loadMoreError'))
+    } finally {
+      setIsFetchingMore(false)
+    }
+  }
+
+  function handleHistoryDelete(item: HistoryDTO) {
+    setItemSelected(null)
+
+    const found = findHistoryItem(exercises, item.id)
+
+    if (!found) return
+
+    setExercises(current => removeHistoryItem(current, item.id))
+
+    const toastId = toast.show({
+      placement: 'bottom',
+      duration: UNDO_DURATION,
+      render: () => (
+        <UndoToast
+          title={t('history.deleted')}
+          onUndo={() => {
+            clearTimeout(pendingDeletions.current[item.id])
+            delete pendingDeletions.current[item.id]
+
+            setExercises(current => insertHistoryItem(current, found.item, found.position))
+            toast.close(toastId)
+          }}
+        />
+      )
+    })
+
+    pendingDeletions.current[item.id] = setTimeout(async () => {
+      delete pendingDeletions.current[item.id]
+
+      try {
+        await historyService.remove(item.id)
+      } catch (error) {
+        setExercises(current => insertHistoryItem(current, found.item, found.position))
+
+        handleError(error, t('history.deleteError'))
+      }
+    }, UNDO_DURATION)
+  }
+
+  async function updateHistoryItem(previous: HistoryDTO, updated: HistoryDTO, canUndo: boolean) {
+    setExercises(current => replaceHistoryItem(current, updated))
+
+    try {
+      await historyService.updateCreatedAt(updated.id, updated.created_at)
+
+      if (!canUndo) return
+
+      const toastId = toast.show({
+        placement: 'bottom',
+        duration: UNDO_DURATION,
+        render: () => (
+          <UndoToast
+            title={t('history.timeUpdated', { hour: updated.hour })}
+            onUndo={() => {
+              toast.close(toastId)
+              updateHistoryItem(updated, previous, false)
+            }}
+          />
+        )
+      })
+    } catch (error) {
+      setExercises(current => replaceHistoryItem(current, previous))
+
+      handleError(error, t('history.timeUpdateError'))
+    }
+  }
+
+  function handleHistoryTimeUpdate(hour: string) {
+    setIsEditingTime(false)
+    setItemSelected(null)
+
+    if (!itemSelected || itemSelected.hour === hour) return
+
+    updateHistoryItem(itemSelected, historyItemWithHour(itemSelected, hour), true)
+  }
+
   useFocusEffect(useCallback(() => {
     fetchHistory()
   }, []))
 
   return (
     <VStack flex={1}>
-      <ScreenHeader title='Histórico de Exercícios' />
+      <ScreenHeader title={t('history.title')} />
+
+      <TouchableOpacity onPress={() => navigation.navigate('statistics')} accessibilityRole='button'>
+        <Text color='green.500' fontWeight='bold' fontSize='md' textAlign='center' mt={6}>
+          {t('history.statistics')}
+        </Text>
+      </TouchableOpacity>
 
       {isLoading ? <Loading /> : <SectionList
-        sections={exercises}
+        sections={sections}
         keyExtractor={item => item.id}
-        renderItem={({ item }) => (
+        renderItem={({ item, section }) => (
           <HistoryCard
             data={item}
+            isPending={section.title === PENDING_SECTION_TITLE}
+            onLongPress={section.title === PENDING_SECTION_TITLE ? undefined : () => setItemSelected(item)}
           />
         )}
         renderSectionHeader={({ section }) => (
           <Heading color='gray.200' fontSize='md' mt={10} mb={3} fontFamily='heading'>
-            {section.title}
+            {section.title === PENDING_SECTION_TITLE
+              ? t('history.pendingSection')
+              : formatDate(new Date(section.data[0].created_at), { day: 'numeric', month: 'long', year: 'numeric' })}
           </Heading>
         )}
         px={8}
-        contentContainerStyle={exercises.length === 0 && { flex: 1, justifyContent: 'center' }}
+        contentContainerStyle={sections.length === 0 && { flex: 1, justifyContent: 'center' }}
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.3}
+        refreshing={isRefreshing}
+        onRefresh={() => fetchHistory(true)}
+        ListFooterComponent={isFetchingMore ? <Spinner color='green.500' my={6} /> : null}
         ListEmptyComponent={() => (
           <Text color='gray.100' textAlign='center'>
-            Não há exercícios registrados ainda. {'\n'}
-            Vamos fazer exercícios hoje?
+            {t('history.empty')}
           </Text>
         )}
         showsVerticalScrollIndicator={false}
       />}
+
+      <Actionsheet isOpen={!!itemSelected && !isEditingTime} onClose={() => setItemSelected(null)}>
+        <Actionsheet.Content bg='gray.600'>
+          <Text color='gray.100' fontSize='md' fontFamily='heading' mb={2}>
+            {itemSelected?.name}
+          </Text>
+
+          <Actionsheet.Item
+            bg='gray.600'
+            _text={{ color: 'gray.100' }}
+            _pressed={{ bg: 'gray.500' }}
+            onPress={() => setIsEditingTime(true)}
+          >
+            {t('history.editTime')}
+          </Actionsheet.Item>
+
+          <Actionsheet.Item
+            bg='gray.600'
+            _text={{ color: 'red.500' }}
+            _pressed={{ bg: 'gray.500' }}
+            onPress={() => itemSelected && handleHistoryDelete(itemSelected)}
+          >
+            {t('history.delete')}
+          </Actionsheet.Item>
+        </Actionsheet.Content>
+      </Actionsheet>
+
+      <HistoryTimeModal
+        isOpen={isEditingTime}
+        hour={itemSelected?.hour ?? ''}
+        onClose={() => {
+          setIsEditingTime(false)
+          setItemSelected(null)
+        }}
+        onConfirm={handleHistoryTimeUpdate}
+      />
     </VStack>
   )
 }
\ No newline at end of file
@@ -1,94 +1,300 @@
-import { useCallback, useEffect, useState } from 'react'
-import { VStack, FlatList, HStack, Heading, Text, useToast } from 'native-base'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { TouchableOpacity } from 'react-native'
+import { VStack, FlatList, HStack, Heading, Text, Icon, Box } from 'native-base'
+import { Feather } from '@expo/vector-icons'
 
 import { useFocusEffect, useNavigation } from '@react-navigation/native'
 import { AppNavigationRoutesProps } from '@routes/app.routes'
 
-import { AppError } from '@utils/AppError'
-import { api } from '@services/api'
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { useLocale } from '@hooks/useLocale'
+import { EMPTY_RANGE, ExerciseFilters, filterExercises } from '@utils/filterExercises'
+import { touchTargetHitSlop } from '@utils/accessibility'
+import { exercisesService } from '@services/exercisesService'
+import { imageCachePrefetch } from '@services/imageCache'
+import { exerciseDemoSource, exerciseThumbSource } from '@services/urls'
 import { ExerciseDTO } from '@dtos/ExerciseDTO'
+import { useConnectivity } from '@hooks/useConnectivity'
+import { useFavorites } from '@hooks/useFavorites'
+import { useToast } from '@hooks/useToast'
+import { storageExercisesByGroupGet, storageExercisesByGroupSave, storageExercisesSave, storageGroupsGet, storageGroupsSave } from '@storage/storageCatalog'
+import { storageGroupsSelectedGet, storageGroupsSelectedSave } from '@storage/storageGroupsSelected'
 
 import { Group } from '@components/Group'
 import { HomeHeader } from '@components/HomeHeader'
 import { ExerciseCard } from '@components/ExerciseCard'
 import { Loading } from '@components/Loading'
+import { SyncStatus } from '@components/SyncStatus'
+import { Input } from '@components/Input'
+import { ExerciseFiltersModal } from '@components/ExerciseFiltersModal'
+
+type Filters = Omit<ExerciseFilters, 'search'>
+
+const FAVORITES_GROUP = 'Favoritos'
 
 export function Home() {
 
   const [isLoading, setIsLoading] = useState(true)
   const [groups, setGroups] = useState<string[]>([])
-  const [groupSelected, setGroupSelected] = useState('antebraço')
+  const [filters, setFilters] = useState<Filters>({
+    groups: [],
+    series: EMPTY_RANGE,
+    repetitions: EMPTY_RANGE,
+    sort: 'name'
+  })
+  const [search, setSearch] = useState('')
+  const [isFiltersOpen, setIsFiltersOpen] = useState(false)
+  const [isFavoritesSelected, setIsFavoritesSelected] = useState(false)
   const [exercises, setExercises] = useState<ExerciseDTO[]>([])
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null)
+  const [isShowingCache, setIsShowingCache] = useState(false)
+  const [downloadProgress, setDownloadProgress] = useState<{ done: number, total: number } | null>(null)
+
+  const exercisesRequestId = useRef(0)
 
   const navigation = useNavigation<AppNavigationRoutesProps>()
   const toast = useToast()
+  const { handleError } = useErrorHandler()
+  const { t } = useLocale()
+  const { favorites, isFavorite, toggleFavorite } = useFavorites()
+
+  const { isOffline } = useConnectivity({
+    onReconnect: () => {
+      fetchGroups()
+      fetchExercisesByGroups()
+    }
+  })
+
+  const isSearching = search.trim().length > 0
+  const groupsToLoad = isFavoritesSelected ? [] : filters.groups.length === 0 && isSearching ? groups : filters.groups
+  const hasRangeFilters = [filters.series, filters.repetitions].some(range => range.min !== null || range.max !== null)
+
+  const exercisesFiltered = useMemo(() => filterExercises(isFavoritesSelected ? favorites : exercises, {
+    ...filters,
+    search,
+    groups: isFavoritesSelected ? [] : filters.groups
+  }), [exercises, favorites, filters, search, isFavoritesSelected])
 
   function handleOpenExerciseDetails(exerciseId: string) {
     navigation.navigate('exercise', { exerciseId })
   }
 
-  async function fetchGroups() {
+  async function handleExercisesDownload() {
+    const exercisesToDownload = exercisesFiltered
+    const sources = exercisesToDownload.flatMap(exercise => [
+      exerciseThumbSource(exercise.thumb, exercise.updated_at),
+      exerciseDemoSource(exercise.demo, exercise.updated_at)
+    ])
+
     try {
-      const response = await api.get('/groups')
-      setGroups(response.data)
-    } catch (error) {
-      const isAppError = error instanceof AppError
-      const title = isAppError ? error.message : 'Não foi possível carregar os grupos musculares.'
+      setDownloadProgress({ done: 0, total: sources.length })
+
+      await storageExercisesSave(exercisesToDownload)
+      const { failed } = await imageCachePrefetch(sources, (done, total) => setDownloadProgress({ done, total }))
 
       toast.show({
-        title,
+        title: failed > 0
+          ? t('home.downloadPartial')
+          : t('home.downloadSuccess'),
         placement: 'top',
-        bgColor: 'red.500'
+        bgColor: failed > 0 ? 'gray.500' : 'green.500'
       })
+    } catch (error) {
+      handleError(error, t('home.downloadError'))
+    } finally {
+      setDownloadProgress(null)
     }
   }
 
+  async function handleGroupsSelect(groupsSelected: string[]) {
+    setIsFavoritesSelected(false)
+    setFilters(current => ({ ...current, groups: groupsSelected }))
+    await storageGroupsSelectedSave(groupsSelected)
+  }
+
+  async function handleFavoritesSelect() {
+    setIsFavoritesSelected(true)
+    await storageGroupsSelectedSave([FAVORITES_GROUP])
+  }
+
+  async function handleFiltersApply(filtersUpdated: Filters) {
+    setIsFiltersOpen(false)
+    setIsFavoritesSelected(false)
+    setFilters(filtersUpdated)
+    await storageGroupsSelectedSave(filtersUpdated.groups)
+  }
+
+  async function fetchGroups() {
+    const groupsCached = await storageGroupsGet()
+
+    if (groupsCached) {
+      setGroups(groupsCached.data)
+    }
+
+    try {
+      const groupsFetched = await exercisesService.listGroups()
+      setGroups(groupsFetched)
+      await storageGroupsSave(groupsFetched)
+    } catch (error) {
+      if (groupsCached) return
+
+      handleError(error, t('home.groupsError'))
+    }
+  }
 
   async function fetchExercisesByGroups() {
+    const requestId = ++exercisesRequestId.current
+
+    function isCurrentRequest() {
+      return requestId === exercisesRequestId.current
+    }
+
+    if (groupsToLoad.length === 0) return
+
+    const exercisesCached = await Promise.all(groupsToLoad.map(storageExercisesByGroupGet))
+    const isFullyCached = exercisesCached.every(entry => entry !== null)
+
+    if (!isCurrentRequest()) return
+
+    if (isFullyCached) {
+      setExercises(exercisesCached.flatMap(entry => entry?.data ?? []))
+      setLastSyncedAt(exercisesCached.map(entry => entry?.synced_at ?? '').sort()[0])
+    }
+
     try {
-      setIsLoading(true)
-      const response = await api.get(`exercises/bygroup/${groupSelected}`)
-      setExercises(response.data)
+      setIsLoading(!isFullyCached)
+
+      const responses = await Promise.allSettled(groupsToLoad.map(async group => {
+        const exercisesFetched = await exercisesService.listByGroup(group)
+        return storageExercisesByGroupSave(group, exercisesFetched)
+      }))
+
+      if (!isCurrentRequest()) return
+
+      const entries = responses.map((response, index) => (
+        response.status === 'fulfilled' ? response.value : exercisesCached[index]
+      ))
+      const failure = responses.find((response): response is PromiseRejectedResult => response.status === 'rejected')
+
+      if (failure && entries.some(entry => entry === null)) {
+        throw failure.reason
+      }
+
+      setExercises(entries.flatMap(entry => entry?.data ?? []))
+      setLastSyncedAt(entries.map(entry => entry?.synced_at ?? '').sort()[0])
+      setIsShowingCache(!!failure)
     } catch (error) {
-      const isAppError = error instanceof AppError
-      const title = isAppError ? error.message : 'Não foi possível carregar os exercícios.'
+      if (!isCurrentRequest()) return
 
-      toast.show({
-        title,
-        placement: 'top',
-        bgColor: 'red.500'
-      })
+      if (isFullyCached) {
+        setIsShowingCache(true)
+        return
+      }
+
+      setLastSyncedAt(null)
+      setIsShowingCache(false)
+      setExercises([])
+
+      handleError(error, t('home.exercisesError'))
     } finally {
-      setIsLoading(false)
+      if (isCurrentRequest()) {
+        setIsLoading(false)
+      }
     }
   }
 
   useEffect(() => {
     fetchGroups()
+
+    storageGroupsSelectedGet().then(groupsSelected => {
+      if (groupsSelected[0] === FAVORITES_GROUP) {
+        setIsFavoritesSelected(true)
+      } else if (groupsSelected.length > 0) {
+        setFilters(current => ({ ...current, groups: groupsSelected }))
+      }
+    })
   }, [])
 
+  useEffect(() => {
+    if (filters.groups.length === 0 && groups.length > 0) {
+      setFilters(current => current.groups.length > 0 ? current : { ...current, groups: [groups[0]] })
+    }
+  }, [groups])
+
+  useEffect(() => {
+    if (isFavoritesSelected) {
+      setIsLoading(false)
+    }
+  }, [isFavoritesSelected])
+
   useFocusEffect(useCallback(() => {
     fetchExercisesByGroups()
-  }, [groupSelected]))
+  }, [groupsToLoad.join('|')]))
 
   return (
     <VStack flex={1}>
       <HomeHeader />
 
+      {(isOffline || isShowingCache) && <SyncStatus isOffline={isOffline} syncedAt={lastSyncedAt} />}
+
+      <HStack px={8} mt={8} alignItems='flex-start'>
+        <Box flex={1} mr={3}>
+          <Input
+            bg='gray.600'
+            placeholder={t('home.search')}
+            autoCorrect={false}
+            value={search}
+            onChangeText={setSearch}
+            returnKeyType='search'
+          />
+        </Box>
+
+        <TouchableOpacity
+          onPress={() => setIsFiltersOpen(true)}
+          accessibilityRole='button'
+          accessibilityLabel={t('filters.title')}
+        >
+          <Box
+            h={14}
+            w={14}
+            bg='gray.600'
+            rounded='sm'
+            alignItems='center'
+            justifyContent='center'
+            borderWidth={hasRangeFilters || filters.groups.length > 1 ? 1 : 0}
+            borderColor='green.500'
+          >
+            <Icon
+              as={Feather}
+              name='sliders'
+              color={hasRangeFilters || filters.groups.length > 1 ? 'green.500' : 'gray.200'}
+              size={5}
+            />
+          </Box>
+        </TouchableOpacity>
+      </HStack>
+
       <FlatList
-        data={groups}
+        data={[FAVORITES_GROUP, ...groups]}
         keyExtractor={item => item}
-        renderItem={({ item }) => (
+        renderItem={({ item, index }) => index === 0 ? (
+          <Group
+            name={t('home.favorites')}
+            isActive={isFavoritesSelected}
+            onPress={handleFavoritesSelect}
+          />
+        ) : (
           <Group
             name={item}
-            isActive={groupSelected.toLocaleUpperCase() === item.toLocaleUpperCase()}
-            onPress={() => setGroupSelected(item)}
+            isActive={!isFavoritesSelected && filters.groups.some(group => group.toLocaleUpperCase() === item.toLocaleUpperCase())}
+            onPress={() => handleGroupsSelect([item])}
           />
         )}
         horizontal
         showsHorizontalScrollIndicator={false}
         _contentContainerStyle={{ px: 8 }}
-        my={10}
+        mt={2}
+        mb={8}
         maxH={10}
         minH={10}
       />
@@ -98,28 +304,68 @@ export function Home() {
 
             <HStack justifyContent='space-between' mb={5}>
               <Heading color='gray.200' fontSize='md' fontFamily='heading'>
-                Exercício
+                {isSearching ? t('home.results') : isFavoritesSelected ? t('home.favorites') : t('home.exercises')}
               </Heading>
 
-              <Text color='gray.200' fontSize='sm'>
-                {exercises.length}
-              </Text>
+              <HStack alignItems='center'>
+                {downloadProgress ?
+                  <Text color='green.500' fontSize='xs' mr={3}>
+                    {t('home.downloading', downloadProgress)}
+                  </Text>
+                  : !isOffline && exercisesFiltered.length > 0 &&
+                  <TouchableOpacity
+                    onPress={handleExercisesDownload}
+                    hitSlop={touchTargetHitSlop(20)}
+                    accessibilityRole='button'
+                    accessibilityLabel={t('home.download')}
+                  >
+                    <Icon
+                      as={Feather}
+                      name='download-cloud'
+                      color='gray.200'
+                      size={5}
+                      mr={3}
+                    />
+                  </TouchableOpacity>
+                }
+
+                <Text color='gray.200' fontSize='sm'>
+                  {exercisesFiltered.length}
+                </Text>
+              </HStack>
             </HStack>
 
             <FlatList
-              data={exercises}
+              data={exercisesFiltered}
               keyExtractor={item => item.id}
               renderItem={({ item }) => (
                 <ExerciseCard
                   data={item}
+                  isFavorite={isFavorite(item.id)}
+                  onFavoriteToggle={() => toggleFavorite(item)}
                   onPress={() => handleOpenExerciseDetails(item.id)}
                 />
               )}
+              ListEmptyComponent={() => (
+                <Text color='gray.100' textAlign='center'>
+                  {isFavoritesSelected
+                    ? t('home.favoritesEmpty')
+                    : t('home.empty')}
+                </Text>
+              )}
               showsVerticalScrollIndicator={false}
               _contentContainerStyle={{ paddingBottom: 20 }}
             />
           </VStack>
       }
+
+      <ExerciseFiltersModal
+        isOpen={isFiltersOpen}
+        groups={groups}
+        filters={filters}
+        onClose={() => setIsFiltersOpen(false)}
+        onApply={handleFiltersApply}
+      />
     </VStack>
   )
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { useEffect } from 'react'
+import { Center, Heading, Text, VStack, useTheme } from 'native-base'
+
+import { useAuth } from '@hooks/useAuth'
+import { useAppLock } from '@hooks/useAppLock'
+import { useLocale } from '@hooks/useLocale'
+import { MAX_UNLOCK_ATTEMPTS } from '@contexts/AppLockContext'
+
+import LogoSvg from '@assets/logo.svg'
+
+import { Button } from '@components/Button'
+
+export function Lock() {
+  const { signOut } = useAuth()
+  const { unlock, remainingAttempts } = useAppLock()
+  const { t } = useLocale()
+  const { colors } = useTheme()
+
+  useEffect(() => {
+    unlock()
+  }, [])
+
+  return (
+    <VStack flex={1} bg='gray.700' px={10} justifyContent='center'>
+      <Center mb={12}>
+        <LogoSvg color={colors.gray[100]} />
+
+        <Heading color='gray.100' fontSize='lg' fontFamily='heading' mt={10} mb={2}>
+          {t('lock.title')}
+        </Heading>
+
+        <Text color='gray.200' fontSize='sm' textAlign='center'>
+          {t('lock.description')}
+        </Text>
+
+        {remainingAttempts < MAX_UNLOCK_ATTEMPTS &&
+          <Text color='red.500' fontSize='sm' mt={2}>
+            {remainingAttempts === 1 ? t('lock.lastAttempt') : t('lock.remainingAttempts', { count: remainingAttempts })}
+          </Text>
+        }
+      </Center>
+
+      <Button
+        title={t('lock.unlock')}
+        onPress={unlock}
+      />
+
+      <Button
+        title={t('lock.signOut')}
+        variant='outline'
+        mt={4}
+        onPress={signOut}
+      />
+    </VStack>
+  )
+}
@@ -0,0 +1,308 @@
+import { useEffect, useState } from 'react'
+import { TouchableOpacity } from 'react-native'
+import { FlatList, HStack, Heading, Icon, ScrollView, Text, VStack } from 'native-base'
+import { Feather } from '@expo/vector-icons'
+import { useNavigation, useRoute } from '@react-navigation/native'
+
+import { AppNavigationRoutesProps } from '@routes/app.routes'
+
+import { plansService } from '@services/plansService'
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { useLocale } from '@hooks/useLocale'
+import { useToast } from '@hooks/useToast'
+import { WEEKDAYS, weekdayName } from '@utils/weekdays'
+import { touchTargetHitSlop } from '@utils/accessibility'
+import { PlanDTO } from '@dtos/PlanDTO'
+import { PlanExerciseDTO } from '@dtos/PlanExerciseDTO'
+import { ExerciseDTO } from '@dtos/ExerciseDTO'
+
+import { Input } from '@components/Input'
+import { Button } from '@components/Button'
+import { Group } from '@components/Group'
+import { Loading } from '@components/Loading'
+import { PlanExerciseCard } from '@components/PlanExerciseCard'
+import { ExercisePickerModal } from '@components/ExercisePickerModal'
+import { RemovePlanModal } from '@components/RemovePlanModal'
+
+type RouteParamsProps = {
+  planId: string
+}
+
+export function Plan() {
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isRemoving, setIsRemoving] = useState(false)
+  const [isRemoveOpen, setIsRemoveOpen] = useState(false)
+  const [isPickerOpen, setIsPickerOpen] = useState(false)
+  const [plan, setPlan] = useState<PlanDTO>({} as PlanDTO)
+
+  const routes = useRoute()
+  const { planId } = routes.params as RouteParamsProps
+
+  const navigation = useNavigation<AppNavigationRoutesProps>()
+  const toast = useToast()
+  const { handleError } = useErrorHandler()
+  const { t } = useLocale()
+
+  function handleGoBack() {
+    navigation.navigate('plans')
+  }
+
+  function handleWeekdayToggle(weekday: number) {
+    const weekdays = plan.weekdays.includes(weekday)
+      ? plan.weekdays.filter(item => item !== weekday)
+      : [...plan.weekdays, weekday]
+
+    setPlan({ ...plan, weekdays })
+  }
+
+  function handleExerciseAdd(exercise: ExerciseDTO) {
+    const planExercise: PlanExerciseDTO = {
+      exercise_id: exercise.id,
+      name: exercise.name,
+      group: exercise.group,
+      thumb: exercise.thumb,
+      series: exercise.series,
+      repetitions: exercise.repetitions,
+      updated_at: exercise.updated_at
+    }
+
+    setPlan({ ...plan, exercises: [...plan.exercises, planExercise] })
+    setIsPickerOpen(false)
+  }
+
+  function handleExerciseChange(index: number, planExercise: PlanExerciseDTO) {
+    const exercises = [...plan.exercises]
+    exercises[index] = planExercise
+
+    setPlan({ ...plan, exercises })
+  }
+
+  function handleExerciseMove(from: number, to: number) {
+    const exercises = [...plan.exercises]
+    const [moved] = exercises.splice(from, 1)
+    exercises.splice(to, 0, moved)
+
+    setPlan({ ...plan, exercises })
+  }
+
+  function handleExerciseRemove(index: number) {
+    setPlan({ ...plan, exercises: plan.exercises.filter((_, itemIndex) => itemIndex !== index) })
+  }
+
+  async function fetchPlan() {
+    try {
+      setIsLoading(true)
+      setPlan(await plansService.getById(planId))
+    } catch (error) {
+      handleError(error, t('exercise.planLoadError'))
+
+      navigation.navigate('plans')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  function isPlanNameValid() {
+    if (plan.name.trim()) return true
+
+    toast.show({
+      title: t('plans.nameRequired'),
+      placement: 'top',
+      bgColor: 'red.500'
+    })
+
+    return false
+  }
+
+  async function savePlan() {
+    return plansService.update(planId, {
+      name: plan.name.trim(),
+      weekdays: plan.weekdays,
+      exercises: plan.exercises.map(({ exercise_id, series, repetitions }) => ({ exercise_id, series, repetitions }))
+    })
+  }
+
+  async function handlePlanSave() {
+    if (!isPlanNameValid()) return
+
+    try {
+      setIsSaving(true)
+      setPlan(await savePlan())
+
+      toast.show({
+        title: t('plan.saved'),
+        placement: 'top',
+        bgColor: 'green.700'
+      })
+    } catch (error) {
+      handleError(error, t('plan.saveError'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function handlePlanStart() {
+    if (!isPlanNameValid()) return
+
+    try {
+      setIsSaving(true)
+      const planSaved = await savePlan()
+
+      navigation.navigate('exercise', {
+        exerciseId: planSaved.exercises[0].exercise_id,
+        planId,
+        planStep: 0
+      })
+    } catch (error) {
+      handleError(error, t('plan.startError'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  async function handlePlanRemove() {
+    try {
+      setIsRemoving(true)
+      await plansService.remove(planId)
+
+      setIsRemoveOpen(false)
+      navigation.navigate('plans')
+    } catch (error) {
+      handleError(error, t('plan.removeError'))
+    } finally {
+      setIsRemoving(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPlan()
+  }, [planId])
+
+  return (
+    <VStack flex={1}>
+      <VStack px={8} bg='gray.600' pt={12} pb={6}>
+        <TouchableOpacity
+          onPress={handleGoBack}
+          hitSlop={touchTargetHitSlop(24)}
+          accessibilityRole='button'
+          accessibilityLabel={t('common.back')}
+        >
+          <Icon
+            as={Feather}
+            name='arrow-left'
+            color='green.500'
+            size={6}
+          />
+        </TouchableOpacity>
+
+        <Heading color='gray.100' fontSize='lg' mt={4} fontFamily='heading' numberOfLines={1}>
+          {plan.name}
+        </Heading>
+      </VStack>
+
+      {isLoading ? <Loading /> :
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ paddingBottom: 36 }}>
+          <VStack px={8} mt={8}>
+            <Input
+              bg='gray.600'
+              placeholder={t('plan.name')}
+              value={plan.name}
+              onChangeText={name => setPlan({ ...plan, name })}
+            />
+
+            <Heading color='gray.200' fontSize='md' fontFamily='heading' mb={3}>
+              {t('reminders.weekdays')}
+            </Heading>
+          </VStack>
+
+          <FlatList
+            data={WEEKDAYS}
+            keyExtractor={item => String(item)}
+            renderItem={({ item }) => (
+              <Group
+                name={weekdayName(item)}
+                minW={16}
+                isActive={plan.weekdays.includes(item)}
+                onPress={() => handleWeekdayToggle(item)}
+              />
+            )}
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            _contentContainerStyle={{ px: 8 }}
+            maxH={10}
+            minH={10}
+          />
+
+          <VStack px={8} mt={8}>
+            <HStack justifyContent='space-between' mb={5}>
+              <Heading color='gray.200' fontSize='md' fontFamily='heading'>
+                {t('plan.exercises')}
+              </Heading>
+
+              <Text color='gray.200' fontSize='sm'>
+                {plan.exercises.length}
+              </Text>
+            </HStack>
+
+            {plan.exercises.map((planExercise, index) => (
+              <PlanExerciseCard
+                key={`${planExercise.exercise_id}-${index}`}
+                data={planExercise}
+                position={index + 1}
+                onChange={updated => handleExerciseChange(index, updated)}
+                onMoveUp={index > 0 ? () => handleExerciseMove(index, index - 1) : undefined}
+                onMoveDown={index < plan.exercises.length - 1 ? () => handleExerciseMove(index, index + 1) : undefined}
+                onRemove={() => handleExerciseRemove(index)}
+              />
+            ))}
+
+            <Button
+              title={t('plan.addExercise')}
+              variant='outline'
+              mb={8}
+              onPress={() => setIsPickerOpen(true)}
+            />
+
+            <Button
+              title={t('plan.start')}
+              mb={3}
+              onPress={handlePlanStart}
+              isDisabled={plan.exercises.length === 0 || isRemoving}
+              isLoading={isSaving}
+            />
+
+            <Button
+              title={t('common.save')}
+              variant='outline'
+              mb={3}
+              onPress={handlePlanSave}
+              isDisabled={isSaving || isRemoving}
+            />
+
+            <Button
+              title={t('plan.remove')}
+              variant='outline'
+              onPress={() => setIsRemoveOpen(true)}
+              isDisabled={isSaving || isRemoving}
+            />
+          </VStack>
+        </ScrollView>
+      }
+
+      <ExercisePickerModal
+        isOpen={isPickerOpen}
+        onClose={() => setIsPickerOpen(false)}
+        onSelect={handleExerciseAdd}
+      />
+
+      <RemovePlanModal
+        isOpen={isRemoveOpen}
+        isLoading={isRemoving}
+        planName={plan.name}
+        onClose={() => setIsRemoveOpen(false)}
+        onConfirm={handlePlanRemove}
+      />
+    </VStack>
+  )
+}
\ No newline at end of file
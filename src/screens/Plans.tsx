@@ -0,0 +1,130 @@
+import { useCallback, useState } from 'react'
+import { FlatList, HStack, Heading, Text, VStack } from 'native-base'
+import { useFocusEffect, useNavigation } from '@react-navigation/native'
+
+import { AppNavigationRoutesProps } from '@routes/app.routes'
+
+import { plansService } from '@services/plansService'
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { useLocale } from '@hooks/useLocale'
+import { useToast } from '@hooks/useToast'
+import { PlanDTO } from '@dtos/PlanDTO'
+
+import { ScreenHeader } from '@components/ScreenHeader'
+import { PlanCard } from '@components/PlanCard'
+import { Input } from '@components/Input'
+import { Button } from '@components/Button'
+import { Loading } from '@components/Loading'
+
+export function Plans() {
+  const [isLoading, setIsLoading] = useState(true)
+  const [isCreating, setIsCreating] = useState(false)
+  const [plans, setPlans] = useState<PlanDTO[]>([])
+  const [newPlanName, setNewPlanName] = useState('')
+
+  const navigation = useNavigation<AppNavigationRoutesProps>()
+  const toast = useToast()
+  const { handleError } = useErrorHandler()
+  const { t } = useLocale()
+
+  const today = new Date().getDay()
+
+  function handleOpenPlan(planId: string) {
+    navigation.navigate('plan', { planId })
+  }
+
+  async function fetchPlans() {
+    try {
+      setIsLoading(true)
+      setPlans(await plansService.list())
+    } catch (error) {
+      handleError(error, t('plans.loadError'))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  async function handleCreatePlan() {
+    const name = newPlanName.trim()
+
+    if (!name) {
+      return toast.show({
+        title: t('plans.nameRequired'),
+        placement: 'top',
+        bgColor: 'red.500'
+      })
+    }
+
+    try {
+      setIsCreating(true)
+      const plan = await plansService.create(name)
+
+      setNewPlanName('')
+      handleOpenPlan(plan.id)
+    } catch (error) {
+      handleError(error, t('plans.createError'))
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  useFocusEffect(useCallback(() => {
+    fetchPlans()
+  }, []))
+
+  return (
+    <VStack flex={1}>
+      <ScreenHeader title={t('plans.title')} />
+
+      <VStack px={8} mt={8}>
+        <Input
+          bg='gray.600'
+          placeholder={t('plans.namePlaceholder')}
+          value={newPlanName}
+          onChangeText={setNewPlanName}
+          onSubmitEditing={handleCreatePlan}
+          returnKeyType='send'
+        />
+
+        <Button
+          title={t('plans.create')}
+          onPress={handleCreatePlan}
+          isLoading={isCreating}
+        />
+      </VStack>
+
+      {isLoading ? <Loading /> :
+        <VStack flex={1} px={8} mt={8}>
+          <HStack justifyContent='space-between' mb={5}>
+            <Heading color='gray.200' fontSize='md' fontFamily='heading'>
+              {t('plans.myPlans')}
+            </Heading>
+
+            <Text color='gray.200' fontSize='sm'>
+              {plans.length}
+            </Text>
+          </HStack>
+
+          <FlatList
+            data={plans}
+            keyExtractor={item => item.id}
+            renderItem={({ item }) => (
+              <PlanCard
+                data={item}
+                isToday={item.weekdays.includes(today)}
+                onPress={() => handleOpenPlan(item.id)}
+              />
+            )}
+            ListEmptyComponent={() => (
+              <Text color='gray.100' textAlign='center'>
+                {t('plans.empty')}
+              </Text>
+            )}
+            showsVerticalScrollIndicator={false}
+            _contentContainerStyle={{ paddingBottom: 20 }}
+          />
+        </VStack>
+      }
+    </VStack>
+  )
+}
\ No newline at end of file
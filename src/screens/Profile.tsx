@@ -1,31 +1,54 @@
 import { useState } from 'react'
 import { TouchableOpacity } from 'react-native'
-import { Center, ScrollView, VStack, Skeleton, Text, Heading, useToast } from 'native-base'
+import { Actionsheet, Center, ScrollView, VStack, HStack, Skeleton, Text, Heading, Switch, FlatList } from 'native-base'
 import * as ImagePicker from 'expo-image-picker'
-import * as FileSystem from 'expo-file-system'
 
+import { useNavigation } from '@react-navigation/native'
 import { useForm, Controller } from 'react-hook-form'
 
 import * as yup from 'yup'
 import { yupResolver } from '@hookform/resolvers/yup'
 
-import { api } from '@services/api'
+import { usersService } from '@services/usersService'
+import { avatarUrl } from '@services/urls'
+import { dataExportShare } from '@services/dataExport'
+import { avatarImagePrepare } from '@services/avatarImage'
 import { AppError } from '@utils/AppError'
+import { DataExportFormat } from '@utils/dataExport'
+import { IS_DEVELOPER_SETTINGS_ENABLED } from '@utils/environment'
+import { useErrorHandler } from '@hooks/useErrorHandler'
 
 import { useAuth } from '@hooks/useAuth'
+import { useAppLock } from '@hooks/useAppLock'
+import { useSocialAuth } from '@hooks/useSocialAuth'
+import { useLocale } from '@hooks/useLocale'
+import { useColorScheme } from '@hooks/useColorScheme'
+import { useToast } from '@hooks/useToast'
+import { SocialProvider } from '@dtos/SessionDTO'
+import { LOCALES, Locale } from '@i18n/index'
+import { ColorScheme } from '@theme/index'
+import { AppNavigationRoutesProps } from '@routes/app.routes'
 import defaultUserPhotoImg from '@assets/userPhotoDefault.png'
 
 import { ScreenHeader } from '@components/ScreenHeader'
 import { UserPhoto } from '@components/UserPhoto'
 import { Input } from '@components/Input'
 import { Button } from '@components/Button'
+import { Group } from '@components/Group'
+import { DeleteAccountModal } from '@components/DeleteAccountModal'
+import { ReminderSettings } from '@components/ReminderSettings'
 
 const PHOTO_SIZE = 33
 
-type FileSystemProps = FileSystem.FileInfo & {
-  size: number
+const SOCIAL_PROVIDER_NAMES: Record<SocialProvider, string> = {
+  google: 'Google',
+  apple: 'Apple'
 }
 
+const APP_LOCK_TIMEOUT_OPTIONS = [0, 60, 300, 900]
+
+type PhotoSource = 'camera' | 'library'
+
 type FormDataProps = {
   email: string
   name: string
@@ -34,36 +57,62 @@ type FormDataProps = {
   confirm_password: string
 }
 
-const profileSchema = yup.object({
-  name: yup.string().required('Informe o nome.'),
-  password: yup
-    .string()
-    .min(6, 'A senha deve ter pelo menos 6 dígitos.')
-    .nullable()
-    .transform((value) => !!value ? value : null),
-  confirm_password: yup
-    .string()
-    .nullable()
-    .transform((value) => !!value ? value : null)
-    .oneOf([yup.ref('password'), ''], 'A confirmação da senha não confere.')
-    .when('password', {
-      is: (Field: any) => Field,
-      then: (schema) =>
-        schema
-          .nullable()
-          .required('Informe a confirmação da senha.')
-          .transform((value) => !!value ? value : null),
-    })
-})
-
 export function Profile() {
 
   const [isUpdating, setIsUpdating] = useState(false)
   const [photoIsLoading, setPhotoIsLoading] = useState(false)
+  const [photoUploadProgress, setPhotoUploadProgress] = useState<number>()
+  const [photoPreviewUri, setPhotoPreviewUri] = useState<string | null>(null)
+  const [isPhotoOptionsOpen, setIsPhotoOptionsOpen] = useState(false)
+  const [linkingProvider, setLinkingProvider] = useState<SocialProvider | null>(null)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [isDeleteAccountOpen, setIsDeleteAccountOpen] = useState(false)
+  const [isDeletingAccount, setIsDeletingAccount] = useState(false)
 
   const toast = useToast()
-  const { user, updateUserProfile } = useAuth()
-  const { control, handleSubmit, formState: { errors } } = useForm<FormDataProps>({
+  const { handleError } = useErrorHandler()
+  const { t, localeSelected, updateLocale } = useLocale()
+  const { colorSchemeSelected, updateColorScheme } = useColorScheme()
+  const navigation = useNavigation<AppNavigationRoutesProps>()
+  const { user, updateUserProfile, deleteAccount } = useAuth()
+  const { appLock, updateAppLock } = useAppLock()
+  const { isGoogleAvailable, isAppleAvailable, requestIdToken } = useSocialAuth()
+
+  const profileSchema = yup.object({
+    name: yup.string().required(t('form.nameRequired')),
+    password: yup
+      .string()
+      .min(6, t('form.passwordMin', { min: 6 }))
+      .nullable()
+      .transform((value) => !!value ? value : null),
+    confirm_password: yup
+      .string()
+      .nullable()
+      .transform((value) => !!value ? value : null)
+      .oneOf([yup.ref('password'), ''], t('form.passwordConfirmMismatch'))
+      .when('password', {
+        is: (Field: any) => Field,
+        then: (schema) =>
+          schema
+            .nullable()
+            .required(t('form.passwordConfirmRequired'))
+            .transform((value) => !!value ? value : null),
+      })
+  })
+
+  const localeOptions: { locale: Locale | null, name: string }[] = [
+    { locale: null, name: t('profile.languageSystem') },
+    ...LOCALES
+  ]
+
+  const colorSchemeOptions: { colorScheme: ColorScheme | null, name: string }[] = [
+    { colorScheme: null, name: t('profile.themeSystem') },
+    { colorScheme: 'light', name: t('profile.themeLight') },
+    { colorScheme: 'dark', name: t('profile.themeDark') }
+  ]
+
+  const { control, handleSubmit, setError, formState: { errors } } = useForm<FormDataProps>({
     resolver: yupResolver(profileSchema),
     defaultValues: {
       name: user.name,
@@ -71,63 +120,156 @@ export function Profile() {
     }
   })
 
-  async function handleUserPhotoSelect() {
-    setPhotoIsLoading(true)
+  async function handleUserPhotoSelect(source: PhotoSource) {
+    setIsPhotoOptionsOpen(false)
+
     try {
-      const photoSelected = await ImagePicker.launchImageLibraryAsync({
+      if (source === 'camera') {
+        const { granted } = await ImagePicker.requestCameraPermissionsAsync()
+
+        if (!granted) {
+          throw new AppError(t('profile.cameraPermissionDenied'))
+        }
+      }
+
+      const pickerOptions: ImagePicker.ImagePickerOptions = {
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
         quality: 1,
         aspect: [4, 4],
         allowsEditing: true
-      })
+      }
 
-      if (photoSelected.canceled) return
+      const photoSelected = source === 'camera'
+        ? await ImagePicker.launchCameraAsync(pickerOptions)
+        : await ImagePicker.launchImageLibraryAsync(pickerOptions)
 
-      if (!photoSelected.assets[0].uri) return
+      if (photoSelected.canceled || !photoSelected.assets[0]?.uri) return
 
-      const photoInfo: FileSystemProps = await FileSystem.getInfoAsync(photoSelected.assets[0].uri) as FileSystemProps
+      setPhotoIsLoading(true)
 
-      if (photoInfo.size && (photoInfo.size / 1024 / 1024) > 5) {
-        toast.show({
-          title: 'Essa imagem é muito grande. Escolha uam de até 5MB.',
-          placement: 'top',
-          bgColor: 'red.500'
-        })
-      }
+      const photoFile = await avatarImagePrepare(photoSelected.assets[0], user.name)
 
-      const fileExtension = photoSelected.assets[0].uri.split('.').pop()
-      const photoFile = {
-        name: `${user.name}.${fileExtension}`.toLowerCase(),
-        uri: photoSelected.assets[0].uri,
-        type: `${photoSelected.assets[0].type}/${fileExtension}`
-      } as any
+      setPhotoPreviewUri(photoFile.uri)
+      setPhotoUploadProgress(0)
 
       const userPhotoUploadForm = new FormData()
-      userPhotoUploadForm.append('avatar', photoFile)
+      userPhotoUploadForm.append('avatar', photoFile as any)
 
-      const avatarUpdatedResponse = await api.patch('/users/avatar', userPhotoUploadForm, {
-        headers: {
-          'Content-Type': 'multipart/form-data'
-        }
-      })
+      const avatarUpdated = await usersService.updateAvatar(userPhotoUploadForm, setPhotoUploadProgress)
 
-      const userUpdated = user
-      userUpdated.avatar = avatarUpdatedResponse.data.avatar
-      await updateUserProfile(userUpdated)
+      await updateUserProfile({ ...user, avatar: avatarUpdated.avatar })
 
       toast.show({
-        title: 'Foto atualizada',
+        title: t('profile.photoUpdated'),
         placement: 'top',
         bgColor: 'green.500'
       })
 
     } catch (error) {
-      console.log(error)
+      handleError(error, t('profile.photoUpdateError'))
     } finally {
       setPhotoIsLoading(false)
+      setPhotoUploadProgress(undefined)
+      setPhotoPreviewUri(null)
     }
   }
 
+  async function handleUserPhotoRemove() {
+    setIsPhotoOptionsOpen(false)
+
+    try {
+      setPhotoIsLoading(true)
+
+      await usersService.removeAvatar()
+      await updateUserProfile({ ...user, avatar: '' })
+
+      toast.show({
+        title: t('profile.photoRemoved'),
+        placement: 'top',
+        bgColor: 'green.500'
+      })
+    } catch (error) {
+      handleError(error, t('profile.photoRemoveError'))
+    } finally {
+      setPhotoIsLoading(false)
+    }
+  }
+
+  async function handleIdentityLink(provider: SocialProvider) {
+    try {
+      const idToken = await requestIdToken(provider)
+
+      if (!idToken) return
+
+      setLinkingProvider(provider)
+      await usersService.linkIdentity(provider, idToken)
+
+      toast.show({
+        title: t('profile.identityLinked', { provider: SOCIAL_PROVIDER_NAMES[provider] }),
+        placement: 'top',
+        bgColor: 'green.500'
+      })
+    } catch (error) {
+      handleError(error, t('profile.identityLinkError', { provider: SOCIAL_PROVIDER_NAMES[provider] }))
+    } finally {
+      setLinkingProvider(null)
+    }
+  }
+
+  async function handleDataExport(format: DataExportFormat) {
+    try {
+      setIsExportOpen(false)
+      setIsExporting(true)
+
+      await dataExportShare(user, format)
+    } catch (error) {
+      handleError(error, t('profile.dataExportError'))
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  async function handleAccountDelete(password: string) {
+    try {
+      setIsDeletingAccount(true)
+      await deleteAccount(password)
+    } catch (error) {
+      setIsDeletingAccount(false)
+
+      handleError(error, t('profile.deleteAccountError'))
+    }
+  }
+
+  async function handleAppLockUpdate(isEnabled: boolean, timeoutInSeconds: number) {
+    try {
+      await updateAppLock({ isEnabled, timeoutInSeconds })
+    } catch (error) {
+      handleError(error, t('profile.appLockError'))
+    }
+  }
+
+  async function handleLocaleUpdate(locale: Locale | null) {
+    try {
+      await updateLocale(locale)
+    } catch (error) {
+      handleError(error, t('profile.languageError'))
+    }
+  }
+
+  async function handleColorSchemeUpdate(colorScheme: ColorScheme | null) {
+    try {
+      await updateColorScheme(colorScheme)
+    } catch (error) {
+      handleError(error, t('profile.themeError'))
+    }
+  }
+
+  function appLockTimeoutLabel(seconds: number) {
+    return seconds === 0
+      ? t('profile.appLockImmediately')
+      : t('profile.appLockMinutes', { minutes: seconds / 60 })
+  }
+
   async function handleProfileUpdate(data: FormDataProps) {
     try {
       setIsUpdating(true)
@@ -135,24 +277,17 @@ export function Profile() {
       const userUpdated = user
       userUpdated.name = data.name
 
-      await api.put('/users', data)
+      await usersService.updateProfile(data)
 
       await updateUserProfile(userUpdated)
 
       toast.show({
-        title: 'Perfil atualizado com sucesso!',
+        title: t('profile.updated'),
         placement: 'top',
         bgColor: 'green.500'
       })
     } catch (error) {
-      const isAppError = error instanceof AppError
-      const title = isAppError ? error.message : 'Não possível atualizar os dados. Tente novamente mais tarde.'
-
-      toast.show({
-        title,
-        placement: 'top',
-        bgColor: 'red.500'
-      })
+      handleError(error, t('profile.updateError'), setError)
     } finally {
       setIsUpdating(false)
     }
@@ -160,10 +295,13 @@ export function Profile() {
 
   return (
     <VStack flex={1}>
-      <ScreenHeader title='Perfil' />
+      <ScreenHeader
+        title={t('profile.title')}
+        onLongPress={IS_DEVELOPER_SETTINGS_ENABLED ? () => navigation.navigate('developerSettings') : undefined}
+      />
       <ScrollView contentContainerStyle={{ paddingBottom: 36 }}>
         <Center mt={6} px={10}>
-          {photoIsLoading ?
+          {photoIsLoading && photoUploadProgress === undefined ?
             <Skeleton
               w={PHOTO_SIZE}
               h={PHOTO_SIZE}
@@ -174,18 +312,21 @@ export function Profile() {
             :
             <UserPhoto
               source={
-                user.avatar
-                  ? { uri: `${api.defaults.baseURL}/avatar${user.avatar}` }
-                  : defaultUserPhotoImg
+                photoPreviewUri
+                  ? { uri: photoPreviewUri }
+                  : user.avatar
+                    ? { uri: avatarUrl(user.avatar) }
+                    : defaultUserPhotoImg
               }
-              alt='Foto do usuário'
+              alt={t('profile.photoAlt', { name: user.name })}
               size={PHOTO_SIZE}
+              progress={photoUploadProgress}
             />
           }
 
-          <TouchableOpacity onPress={handleUserPhotoSelect}>
+          <TouchableOpacity onPress={() => setIsPhotoOptionsOpen(true)} disabled={photoIsLoading} accessibilityRole='button'>
             <Text color='green.500' fontWeight='bold' fontSize='md' mt={2} mb={8}>
-              Alterar foto
+              {t('profile.changePhoto')}
             </Text>
           </TouchableOpacity>
 
@@ -195,7 +336,7 @@ export function Profile() {
             render={({ field: { value, onChange } }) => (
               <Input
                 bg='gray.600'
-                placeholder='Nome'
+                placeholder={t('form.name')}
                 value={value}
                 onChangeText={onChange}
                 errorMessage={errors.name?.message}
@@ -209,7 +350,7 @@ export function Profile() {
             render={({ field: { value, onChange } }) => (
               <Input
                 bg='gray.600'
-                placeholder='E-mail'
+                placeholder={t('form.email')}
                 isDisabled={true}
                 value={value}
                 onChangeText={onChange}
@@ -218,7 +359,7 @@ export function Profile() {
           />
 
           <Heading color='gray.200' fontSize='md' alignSelf='flex-start' mb={2} mt={12}>
-            Alterar senha
+            {t('profile.changePassword')}
           </Heading>
 
           <Controller
@@ -227,7 +368,7 @@ export function Profile() {
             render={({ field: { value, onChange } }) => (
               <Input
                 bg='gray.600'
-                placeholder='Senha antiga'
+                placeholder={t('form.oldPassword')}
                 secureTextEntry
                 value={value}
                 onChangeText={onChange}
@@ -241,7 +382,7 @@ export function Profile() {
             render={({ field: { value, onChange } }) => (
               <Input
                 bg='gray.600'
-                placeholder='Nova senha'
+                placeholder={t('form.newPassword')}
                 secureTextEntry
                 value={value}
                 onChangeText={onChange}
@@ -256,7 +397,7 @@ export function Profile() {
             render={({ field: { value, onChange } }) => (
               <Input
                 bg='gray.600'
-                placeholder='Confirme a nova senha'
+                placeholder={t('form.newPasswordConfirm')}
                 secureTextEntry
                 value={value}
                 onChangeText={onChange}
@@ -267,13 +408,210 @@ export function Profile() {
 
 
           <Button
-            title='Atualizar'
+            title={t('profile.submit')}
             mt={4}
             onPress={handleSubmit(handleProfileUpdate)}
             isLoading={isUpdating}
           />
+
+          {(isGoogleAvailable || isAppleAvailable) &&
+            <>
+              <Heading color='gray.200' fontSize='md' alignSelf='flex-start' mb={2} mt={12}>
+                {t('profile.identitiesTitle')}
+              </Heading>
+
+              <Text color='gray.200' fontSize='xs' alignSelf='flex-start' mb={4}>
+                {t('profile.identitiesDescription')}
+              </Text>
+
+              {isGoogleAvailable &&
+                <Button
+                  title={t('profile.identityLink', { provider: SOCIAL_PROVIDER_NAMES.google })}
+                  variant='outline'
+                  mb={3}
+                  onPress={() => handleIdentityLink('google')}
+                  isLoading={linkingProvider === 'google'}
+                />
+              }
+
+              {isAppleAvailable &&
+                <Button
+                  title={t('profile.identityLink', { provider: SOCIAL_PROVIDER_NAMES.apple })}
+                  variant='outline'
+                  onPress={() => handleIdentityLink('apple')}
+                  isLoading={linkingProvider === 'apple'}
+                />
+              }
+            </>
+          }
+
+          <ReminderSettings />
+
+          <Heading color='gray.200' fontSize='md' alignSelf='flex-start' mb={2} mt={12}>
+            {t('profile.languageTitle')}
+          </Heading>
+
+          <FlatList
+            data={localeOptions}
+            keyExtractor={item => item.locale ?? 'system'}
+            renderItem={({ item }) => (
+              <Group
+                name={item.name}
+                isActive={localeSelected === item.locale}
+                onPress={() => handleLocaleUpdate(item.locale)}
+              />
+            )}
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            w='full'
+          />
+
+          <Heading color='gray.200' fontSize='md' alignSelf='flex-start' mb={2} mt={12}>
+            {t('profile.themeTitle')}
+          </Heading>
+
+          <FlatList
+            data={colorSchemeOptions}
+            keyExtractor={item => item.colorScheme ?? 'system'}
+            renderItem={({ item }) => (
+              <Group
+                name={item.name}
+                isActive={colorSchemeSelected === item.colorScheme}
+                onPress={() => handleColorSchemeUpdate(item.colorScheme)}
+              />
+            )}
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            w='full'
+          />
+
+          <Heading color='gray.200' fontSize='md' alignSelf='flex-start' mb={2} mt={12}>
+            {t('profile.securityTitle')}
+          </Heading>
+
+          <HStack w='full' alignItems='center' justifyContent='space-between' bg='gray.600' rounded='md' px={4} py={3}>
+            <Text color='gray.100' fontSize='sm' flex={1} mr={4}>
+              {t('profile.appLock')}
+            </Text>
+
+            <Switch
+              isChecked={appLock.isEnabled}
+              onToggle={() => handleAppLockUpdate(!appLock.isEnabled, appLock.timeoutInSeconds)}
+              onTrackColor='green.500'
+            />
+          </HStack>
+
+          {appLock.isEnabled &&
+            <VStack w='full' mt={4}>
+              <Text color='gray.200' fontSize='xs' mb={2}>
+                {t('profile.appLockTimeout')}
+              </Text>
+
+              <FlatList
+                data={APP_LOCK_TIMEOUT_OPTIONS}
+                keyExtractor={item => String(item)}
+                renderItem={({ item }) => (
+                  <Group
+                    name={appLockTimeoutLabel(item)}
+                    isActive={appLock.timeoutInSeconds === item}
+                    onPress={() => handleAppLockUpdate(true, item)}
+                  />
+                )}
+                horizontal
+                showsHorizontalScrollIndicator={false}
+              />
+            </VStack>
+          }
+
+          <Heading color='gray.200' fontSize='md' alignSelf='flex-start' mb={2} mt={12}>
+            {t('profile.dataTitle')}
+          </Heading>
+
+          <Button
+            title={t('dataExport.dialogTitle')}
+            variant='outline'
+            mb={3}
+            onPress={() => setIsExportOpen(true)}
+            isLoading={isExporting}
+          />
+
+          <TouchableOpacity onPress={() => setIsDeleteAccountOpen(true)} accessibilityRole='button'>
+            <Text color='red.500' fontWeight='bold' fontSize='md' mt={2}>
+              {t('profile.deleteAccount')}
+            </Text>
+          </TouchableOpacity>
         </Center>
       </ScrollView>
+
+      <Actionsheet isOpen={isPhotoOptionsOpen} onClose={() => setIsPhotoOptionsOpen(false)}>
+        <Actionsheet.Content bg='gray.600'>
+          <Text color='gray.100' fontSize='md' fontFamily='heading' mb={2}>
+            {t('profile.photoOptionsTitle')}
+          </Text>
+
+          <Actionsheet.Item
+            bg='gray.600'
+            _text={{ color: 'gray.100' }}
+            _pressed={{ bg: 'gray.500' }}
+            onPress={() => handleUserPhotoSelect('camera')}
+          >
+            {t('profile.photoCamera')}
+          </Actionsheet.Item>
+
+          <Actionsheet.Item
+            bg='gray.600'
+            _text={{ color: 'gray.100' }}
+            _pressed={{ bg: 'gray.500' }}
+            onPress={() => handleUserPhotoSelect('library')}
+          >
+            {t('profile.photoLibrary')}
+          </Actionsheet.Item>
+
+          {!!user.avatar &&
+            <Actionsheet.Item
+              bg='gray.600'
+              _text={{ color: 'red.500' }}
+              _pressed={{ bg: 'gray.500' }}
+              onPress={handleUserPhotoRemove}
+            >
+              {t('profile.photoRemove')}
+            </Actionsheet.Item>
+          }
+        </Actionsheet.Content>
+      </Actionsheet>
+
+      <Actionsheet isOpen={isExportOpen} onClose={() => setIsExportOpen(false)}>
+        <Actionsheet.Content bg='gray.600'>
+          <Text color='gray.100' fontSize='md' fontFamily='heading' mb={2}>
+            {t('dataExport.dialogTitle')}
+          </Text>
+
+          <Actionsheet.Item
+            bg='gray.600'
+            _text={{ color: 'gray.100' }}
+            _pressed={{ bg: 'gray.500' }}
+            onPress={() => handleDataExport('json')}
+          >
+            {t('profile.dataExportJson')}
+          </Actionsheet.Item>
+
+          <Actionsheet.Item
+            bg='gray.600'
+            _text={{ color: 'gray.100' }}
+            _pressed={{ bg: 'gray.500' }}
+            onPress={() => handleDataExport('csv')}
+          >
+            {t('profile.dataExportCsv')}
+          </Actionsheet.Item>
+        </Actionsheet.Content>
+      </Actionsheet>
+
+      <DeleteAccountModal
+        isOpen={isDeleteAccountOpen}
+        isLoading={isDeletingAccount}
+        onClose={() => setIsDeleteAccountOpen(false)}
+        onConfirm={handleAccountDelete}
+      />
     </VStack>
   )
 }
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { useState } from 'react'
+import { TouchableOpacity } from 'react-native'
+
+import { VStack, Image, Text, Center, Heading, ScrollView, useTheme } from 'native-base'
+import { useNavigation, useRoute } from '@react-navigation/native'
+import { useForm, Controller } from 'react-hook-form'
+
+import { passwordService } from '@services/passwordService'
+
+import * as yup from 'yup'
+import { yupResolver } from '@hookform/resolvers/yup'
+
+import { AuthNavigatorRoutesProps } from '@routes/auth.routes'
+
+import LogoSvg from '@assets/logo.svg'
+import BackgroundImg from '@assets/background.png'
+
+import { Input } from '@components/Input'
+import { Button } from '@components/Button'
+
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { useLocale } from '@hooks/useLocale'
+import { useColorScheme } from '@hooks/useColorScheme'
+import { useToast } from '@hooks/useToast'
+
+type RouteParamsProps = {
+  email: string
+}
+
+type FormDataProps = {
+  code: string
+}
+
+export function ResetCode() {
+  const [isLoading, setIsLoading] = useState(false)
+  const [isResending, setIsResending] = useState(false)
+
+  const toast = useToast()
+  const { handleError } = useErrorHandler()
+  const { t } = useLocale()
+  const { colors } = useTheme()
+  const { colorScheme } = useColorScheme()
+  const navigation = useNavigation<AuthNavigatorRoutesProps>()
+
+  const routes = useRoute()
+  const { email } = routes.params as RouteParamsProps
+
+  const resetCodeSchema = yup.object({
+    code: yup.string().required(t('resetCode.codeRequired')).matches(/^\d{6}$/, t('resetCode.codeInvalid', { length: 6 }))
+  })
+
+  const { control, handleSubmit, setError, formState: { errors } } = useForm<FormDataProps>({
+    resolver: yupResolver(resetCodeSchema)
+  })
+
+  function handleGoBack() {
+    navigation.goBack()
+  }
+
+  async function handleCodeResend() {
+    try {
+      setIsResending(true)
+      await passwordService.requestReset(email)
+
+      toast.show({
+        title: t('resetCode.resent'),
+        placement: 'top',
+        bgColor: 'green.500'
+      })
+    } catch (error) {
+      handleError(error, t('resetCode.resendError'))
+    } finally {
+      setIsResending(false)
+    }
+  }
+
+  async function handleCodeVerify({ code }: FormDataProps) {
+    try {
+      setIsLoading(true)
+      await passwordService.verifyCode(email, code)
+
+      navigation.navigate('resetPassword', { email, code })
+    } catch (error) {
+      handleError(error, t('resetCode.error'), setError)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ flexGrow: 1 }} showsVerticalScrollIndicator={false}>
+      <VStack flex={1} px={10}>
+        {colorScheme === 'dark' &&
+          <Image
+            source={BackgroundImg}
+            defaultSource={BackgroundImg}
+            alt={t('signIn.backgroundAlt')}
+            resizeMode='contain'
+            position='absolute'
+          />
+        }
+
+        <Center my={24}>
+
+          <LogoSvg color={colors.gray[100]} />
+
+          <Text color='gray.100' fontSize='sm'>
+            {t('signIn.slogan')}
+          </Text>
+        </Center>
+
+        <Center>
+          <Heading
+            color='gray.100'
+            fontSize='xl'
+            mb={2}
+            fontFamily='heading'
+          >
+            {t('resetCode.title')}
+          </Heading>
+
+          <Text color='gray.200' fontSize='sm' textAlign='center' mb={6}>
+            {t('resetCode.description', { length: 6, email })}
+          </Text>
+
+          <Controller
+            control={control}
+            name='code'
+            render={({ field: { value, onChange } }) => (
+              <Input
+                placeholder={t('resetCode.code')}
+                keyboardType='number-pad'
+                maxLength={6}
+                value={value}
+                onChangeText={onChange}
+                onSubmitEditing={handleSubmit(handleCodeVerify)}
+                returnKeyType='send'
+                errorMessage={errors.code?.message}
+              />
+            )}
+          />
+
+          <Button
+            title={t('resetCode.submit')}
+            isLoading={isLoading}
+            onPress={handleSubmit(handleCodeVerify)}
+          />
+
+          <TouchableOpacity onPress={handleCodeResend} disabled={isResending} accessibilityRole='button'>
+            <Text color='green.500' fontWeight='bold' fontSize='sm' mt={4}>
+              {t('resetCode.resend')}
+            </Text>
+          </TouchableOpacity>
+
+        </Center>
+
+        <Button
+          title={t('common.back')}
+          variant='outline'
+          mt={12}
+          mb={2}
+          onPress={handleGoBack}
+        />
+      </VStack>
+    </ScrollView>
+  )
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react'
+
+import { VStack, Image, Text, Center, Heading, ScrollView, useTheme } from 'native-base'
+import { useNavigation, useRoute } from '@react-navigation/native'
+import { useForm, Controller } from 'react-hook-form'
+
+import { passwordService } from '@services/passwordService'
+
+import * as yup from 'yup'
+import { yupResolver } from '@hookform/resolvers/yup'
+
+import { useAuth } from '@hooks/useAuth'
+import { AuthNavigatorRoutesProps } from '@routes/auth.routes'
+
+import LogoSvg from '@assets/logo.svg'
+import BackgroundImg from '@assets/background.png'
+
+import { Input } from '@components/Input'
+import { Button } from '@components/Button'
+
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { useLocale } from '@hooks/useLocale'
+import { useColorScheme } from '@hooks/useColorScheme'
+
+type RouteParamsProps = {
+  email?: string
+  code?: string
+}
+
+type FormDataProps = {
+  password: string
+  password_confirm: string
+}
+
+export function ResetPassword() {
+  const [isLoading, setIsLoading] = useState(false)
+
+  const { handleError } = useErrorHandler()
+  const { t } = useLocale()
+  const { colors } = useTheme()
+  const { colorScheme } = useColorScheme()
+  const navigation = useNavigation<AuthNavigatorRoutesProps>()
+
+  const { signIn } = useAuth()
+
+  const routes = useRoute()
+  const { email, code } = (routes.params ?? {}) as RouteParamsProps
+
+  const resetPasswordSchema = yup.object({
+    password: yup.string().required(t('form.newPasswordRequired')).min(6, t('form.passwordMin', { min: 6 })),
+    password_confirm: yup.string().required(t('form.newPasswordConfirmRequired')).oneOf([yup.ref('password'), ''], t('form.passwordConfirmMismatch'))
+  })
+
+  const { control, handleSubmit, setError, formState: { errors } } = useForm<FormDataProps>({
+    resolver: yupResolver(resetPasswordSchema)
+  })
+
+  function handleGoBack() {
+    navigation.navigate('signIn')
+  }
+
+  async function handlePasswordReset({ password }: FormDataProps) {
+    if (!email || !code) return
+
+    try {
+      setIsLoading(true)
+      await passwordService.reset({ email, code, password })
+      await signIn(email, password)
+
+    } catch (error) {
+      setIsLoading(false)
+
+      handleError(error, t('resetPassword.error'), setError)
+    }
+  }
+
+  useEffect(() => {
+    if (!email || !code) {
+      navigation.replace('forgotPassword')
+    }
+  }, [email, code])
+
+  return (
+    <ScrollView contentContainerStyle={{ flexGrow: 1 }} showsVerticalScrollIndicator={false}>
+      <VStack flex={1} px={10}>
+        {colorScheme === 'dark' &&
+          <Image
+            source={BackgroundImg}
+            defaultSource={BackgroundImg}
+            alt={t('signIn.backgroundAlt')}
+            resizeMode='contain'
+            position='absolute'
+          />
+        }
+
+        <Center my={24}>
+
+          <LogoSvg color={colors.gray[100]} />
+
+          <Text color='gray.100' fontSize='sm'>
+            {t('signIn.slogan')}
+          </Text>
+        </Center>
+
+        <Center>
+          <Heading
+            color='gray.100'
+            fontSize='xl'
+            mb={6}
+            fontFamily='heading'
+          >
+            {t('resetPassword.title')}
+          </Heading>
+
+          <Controller
+            control={control}
+            name='password'
+            render={({ field: { value, onChange } }) => (
+              <Input
+                placeholder={t('form.newPassword')}
+                secureTextEntry
+                value={value}
+                onChangeText={onChange}
+                errorMessage={errors.password?.message}
+              />
+            )}
+          />
+
+          <Controller
+            control={control}
+            name='password_confirm'
+            render={({ field: { value, onChange } }) => (
+              <Input
+                placeholder={t('form.newPasswordConfirm')}
+                secureTextEntry
+                value={value}
+                onChangeText={onChange}
+                onSubmitEditing={handleSubmit(handlePasswordReset)}
+                returnKeyType='send'
+                errorMessage={errors.password_confirm?.message}
+              />
+            )}
+          />
+
+          <Button
+            title={t('resetPassword.submit')}
+            isLoading={isLoading}
+            onPress={handleSubmit(handlePasswordReset)}
+          />
+
+        </Center>
+
+        <Button
+          title={t('signUp.backToSignIn')}
+          variant='outline'
+          mt={12}
+          mb={2}
+          onPress={handleGoBack}
+        />
+      </VStack>
+    </ScrollView>
+  )
+}
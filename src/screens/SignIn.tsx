@@ -1,6 +1,7 @@
 import { useState } from 'react'
-import { VStack, Image, Text, Center, Heading, ScrollView, useToast } from 'native-base'
+import { VStack, HStack, Box, Image, Text, Center, Heading, ScrollView, Pressable, useTheme } from 'native-base'
 import { useNavigation } from '@react-navigation/native'
+import * as AppleAuthentication from 'expo-apple-authentication'
 
 import { useForm, Controller } from 'react-hook-form'
 
@@ -8,81 +9,161 @@ import * as yup from 'yup'
 import { yupResolver } from '@hookform/resolvers/yup'
 
 import { useAuth } from '@hooks/useAuth'
+import { useSocialAuth } from '@hooks/useSocialAuth'
+import { useLocale } from '@hooks/useLocale'
+import { useColorScheme } from '@hooks/useColorScheme'
+import { avatarUrl } from '@services/urls'
+import { SocialProvider } from '@dtos/SessionDTO'
 import { AuthNavigatorRoutesProps } from '@routes/auth.routes'
 
 import LogoSvg from '@assets/logo.svg'
 import BackgroundImg from '@assets/background.png'
+import defaultUserPhotoImg from '@assets/userPhotoDefault.png'
 
 import { Input } from '@components/Input'
 import { Button } from '@components/Button'
-import { AppError } from '@utils/AppError'
+import { UserPhoto } from '@components/UserPhoto'
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { IS_DEVELOPER_SETTINGS_ENABLED } from '@utils/environment'
 
 type FormDataProps = {
   email: string
   password: string
 }
 
-const signInSchema = yup.object({
-  email: yup.string().required('Informe o e-mail.'),
-  password: yup.string().required('Informe a senha.'),
-})
-
 export function SignIn() {
 
   const [isLoading, setIsLoading] = useState(false)
 
   const navigation = useNavigation<AuthNavigatorRoutesProps>()
-  const toast = useToast()
+  const { handleError } = useErrorHandler()
+  const { t } = useLocale()
+  const { colors } = useTheme()
+  const { colorScheme } = useColorScheme()
+
+  const signInSchema = yup.object({
+    email: yup.string().required(t('form.emailRequired')),
+    password: yup.string().required(t('form.passwordRequired')),
+  })
 
-  const { control, handleSubmit, formState: { errors } } = useForm<FormDataProps>({
+  const { control, handleSubmit, setError, formState: { errors } } = useForm<FormDataProps>({
     resolver: yupResolver(signInSchema)
   })
 
-  const { signIn, user } = useAuth()
+  const { signIn, signInWithProvider, accounts, switchAccount } = useAuth()
+  const { isGoogleAvailable, isAppleAvailable, requestIdToken } = useSocialAuth()
 
   function handleNewAccount() {
     navigation.navigate('signUp')
   }
 
+  function handleForgotPassword() {
+    navigation.navigate('forgotPassword')
+  }
+
   async function handleSignIn({ email, password }: FormDataProps) {
     try {
       setIsLoading(true)
       await signIn(email, password)
 
     } catch (error) {
-      const isAppError = error instanceof AppError
-      const title = isAppError ? error.message : 'Não foi possível entrar. Tente novamente mais tarde'
+      setIsLoading(false)
+
+      handleError(error, t('signIn.error'), setError)
+    }
+  }
+
+  async function handleAccountSwitch(accountId: string) {
+    try {
+      await switchAccount(accountId)
+    } catch (error) {
+      handleError(error, t('signIn.accountSwitchError'))
+    }
+  }
+
+  async function handleSocialSignIn(provider: SocialProvider) {
+    try {
+      const idToken = await requestIdToken(provider)
+
+      if (!idToken) return
+
+      setIsLoading(true)
+      await signInWithProvider(provider, idToken)
 
+    } catch (error) {
       setIsLoading(false)
 
-      toast.show({
-        title,
-        placement: 'top',
-        bgColor: 'red.500'
-      })
+      handleError(error, t('signIn.error'))
     }
   }
 
   return (
     <ScrollView contentContainerStyle={{ flexGrow: 1 }} showsVerticalScrollIndicator={false}>
       <VStack flex={1} px={10}>
-        <Image
-          source={BackgroundImg}
-          defaultSource={BackgroundImg}
-          alt='Pessoas treinando'
-          resizeMode='contain'
-          position='absolute'
-        />
+        {colorScheme === 'dark' &&
+          <Image
+            source={BackgroundImg}
+            defaultSource={BackgroundImg}
+            alt={t('signIn.backgroundAlt')}
+            resizeMode='contain'
+            position='absolute'
+          />
+        }
 
         <Center my={24}>
 
-          <LogoSvg />
+          <Pressable
+            onLongPress={() => navigation.navigate('developerSettings')}
+            isDisabled={!IS_DEVELOPER_SETTINGS_ENABLED}
+          >
+            <LogoSvg color={colors.gray[100]} />
+          </Pressable>
 
           <Text color='gray.100' fontSize='sm'>
-            Treine sua mente e o seu corpo
+            {t('signIn.slogan')}
           </Text>
         </Center>
 
+        {accounts.length > 0 &&
+          <VStack mb={10}>
+            <Heading color='gray.100' fontSize='md' mb={3} fontFamily='heading'>
+              {t('signIn.accountsTitle')}
+            </Heading>
+
+            {accounts.map(account => (
+              <Pressable
+                key={account.id}
+                flexDirection='row'
+                alignItems='center'
+                bg='gray.600'
+                rounded='md'
+                p={3}
+                mb={2}
+                _pressed={{ bg: 'gray.500' }}
+                onPress={() => handleAccountSwitch(account.id)}
+                accessibilityRole='button'
+              >
+                <UserPhoto
+                  source={account.avatar ? { uri: avatarUrl(account.avatar) } : defaultUserPhotoImg}
+                  alt={t('profile.photoAlt', { name: account.name })}
+                  size={10}
+                  mr={3}
+                />
+
+                <VStack flex={1}>
+                  <Text color='gray.100' fontSize='md' fontFamily='heading' numberOfLines={1}>
+                    {account.name}
+                  </Text>
+
+                  <Text color='gray.200' fontSize='sm' numberOfLines={1}>
+                    {account.email}
+                  </Text>
+                </VStack>
+              </Pressable>
+            ))}
+          </VStack>
+        }
+
         <Center>
           <Heading
             color='gray.100'
@@ -90,7 +171,7 @@ export function SignIn() {
             mb={6}
             fontFamily='heading'
           >
-            Acesse sua conta
+            {t('signIn.title')}
           </Heading>
 
           <Controller
@@ -98,7 +179,7 @@ export function SignIn() {
             control={control}
             render={({ field: { value, onChange } }) => (
               <Input
-                placeholder='E-mail'
+                placeholder={t('form.email')}
                 keyboardType='email-address'
                 autoCapitalize='none'
                 value={value}
@@ -113,7 +194,7 @@ export function SignIn() {
             control={control}
             render={({ field: { value, onChange } }) => (
               <Input
-                placeholder='Senha'
+                placeholder={t('form.password')}
                 secureTextEntry
                 value={value}
                 onChangeText={onChange}
@@ -123,21 +204,57 @@ export function SignIn() {
           />
 
           <Button
-            title='Acessar'
+            title={t('signIn.submit')}
             onPress={handleSubmit(handleSignIn)}
             isLoading={isLoading}
           />
 
+          <Pressable onPress={handleForgotPassword} mt={4} accessibilityRole='button'>
+            <Text color='green.500' fontSize='sm' fontWeight='bold'>
+              {t('signIn.forgotPassword')}
+            </Text>
+          </Pressable>
+
+          {(isGoogleAvailable || isAppleAvailable) &&
+            <HStack w='full' alignItems='center' mt={8} mb={4}>
+              <Box flex={1} h='1px' bg='gray.400' />
+              <Text color='gray.200' fontSize='xs' mx={3}>
+                {t('signIn.socialDivider')}
+              </Text>
+              <Box flex={1} h='1px' bg='gray.400' />
+            </HStack>
+          }
+
+          {isGoogleAvailable &&
+            <Button
+              title={t('signIn.google')}
+              variant='outline'
+              mb={3}
+              onPress={() => handleSocialSignIn('google')}
+              isDisabled={isLoading}
+            />
+          }
+
+          {isAppleAvailable &&
+            <AppleAuthentication.AppleAuthenticationButton
+              buttonType={AppleAuthentication.AppleAuthenticationButtonType.SIGN_IN}
+              buttonStyle={AppleAuthentication.AppleAuthenticationButtonStyle.WHITE_OUTLINE}
+              cornerRadius={4}
+              style={{ width: '100%', height: 56 }}
+              onPress={() => handleSocialSignIn('apple')}
+            />
+          }
+
         </Center>
 
         <Center mt={24}>
 
           <Text color='gray.100' fontSize='sm' mb={3} fontFamily='body'>
-            Ainda não tem acesso?
+            {t('signIn.noAccount')}
           </Text>
 
           <Button
-            title='Criar conta'
+            title={t('signIn.createAccount')}
             variant='outline'
             onPress={handleNewAccount}
           />
@@ -1,15 +1,17 @@
 import { useState } from 'react'
 
-import { VStack, Image, Text, Center, Heading, ScrollView, useToast } from 'native-base'
+import { VStack, Image, Text, Center, Heading, ScrollView, useTheme } from 'native-base'
 import { useNavigation } from '@react-navigation/native'
 import { useForm, Controller } from 'react-hook-form'
 
-import { api } from '@services/api'
+import { usersService } from '@services/usersService'
 
 import * as yup from 'yup'
 import { yupResolver } from '@hookform/resolvers/yup'
 
 import { useAuth } from '@hooks/useAuth'
+import { useLocale } from '@hooks/useLocale'
+import { useColorScheme } from '@hooks/useColorScheme'
 
 import LogoSvg from '@assets/logo.svg'
 import BackgroundImg from '@assets/background.png'
@@ -17,7 +19,7 @@ import BackgroundImg from '@assets/background.png'
 import { Input } from '@components/Input'
 import { Button } from '@components/Button'
 
-import { AppError } from '@utils/AppError'
+import { useErrorHandler } from '@hooks/useErrorHandler'
 
 type FormDataProps = {
   name: string
@@ -26,22 +28,25 @@ type FormDataProps = {
   password_confirm: string
 }
 
-const signUpSchema = yup.object({
-  name: yup.string().required('Informe o nome.'),
-  email: yup.string().required('Informe o e-mail.').email('E-mail inválido.'),
-  password: yup.string().required('Informe a senha.').min(6, 'A senha deve ter pelo menos 6 dígitos.'),
-  password_confirm: yup.string().required('Confirme a senha.').oneOf([yup.ref('password'), ''], 'A confirmação da senha não confere.')
-})
-
 export function SignUp() {
   const [isLoading, setIsLoading] = useState(false)
 
-  const toast = useToast()
+  const { handleError } = useErrorHandler()
+  const { t } = useLocale()
+  const { colors } = useTheme()
+  const { colorScheme } = useColorScheme()
   const navigation = useNavigation()
 
+  const signUpSchema = yup.object({
+    name: yup.string().required(t('form.nameRequired')),
+    email: yup.string().required(t('form.emailRequired')).email(t('form.emailInvalid')),
+    password: yup.string().required(t('form.passwordRequired')).min(6, t('form.passwordMin', { min: 6 })),
+    password_confirm: yup.string().required(t('form.passwordConfirmRequired')).oneOf([yup.ref('password'), ''], t('form.passwordConfirmMismatch'))
+  })
+
   const { signIn } = useAuth()
 
-  const { control, handleSubmit, formState: { errors } } = useForm<FormDataProps>({
+  const { control, handleSubmit, setError, formState: { errors } } = useForm<FormDataProps>({
     resolver: yupResolver(signUpSchema)
   })
 
@@ -52,20 +57,13 @@ export function SignUp() {
   async function handleSignUp({ name, email, password }: FormDataProps) {
     try {
       setIsLoading(true)
-      await api.post('/users', { name, email, password })
+      await usersService.create({ name, email, password })
       await signIn(email, password)
 
     } catch (error) {
       setIsLoading(false)
 
-      const isAppError = error instanceof AppError
-      const title = isAppError ? error.message : 'Não foi possível criar a conta. Tente novamente mais tarde.'
-
-      toast.show({
-        title,
-        placement: 'top',
-        bgColor: 'red.500'
-      })
+      handleError(error, t('signUp.error'), setError)
     }
   }
 
@@ -73,20 +71,22 @@ export function SignUp() {
   return (
     <ScrollView contentContainerStyle={{ flexGrow: 1 }} showsVerticalScrollIndicator={false}>
       <VStack flex={1} px={10}>
-        <Image
-          source={BackgroundImg}
-          defaultSource={BackgroundImg}
-          alt='Pessoas treinando'
-          resizeMode='contain'
-          position='absolute'
-        />
+        {colorScheme === 'dark' &&
+          <Image
+            source={BackgroundImg}
+            defaultSource={BackgroundImg}
+            alt={t('signIn.backgroundAlt')}
+            resizeMode='contain'
+            position='absolute'
+          />
+        }
 
         <Center my={24}>
 
-          <LogoSvg />
+          <LogoSvg color={colors.gray[100]} />
 
           <Text color='gray.100' fontSize='sm'>
-            Treine sua mente e o seu corpo
+            {t('signIn.slogan')}
           </Text>
         </Center>
 
@@ -97,7 +97,7 @@ export function SignUp() {
             mb={6}
             fontFamily='heading'
           >
-            Crie sua conta
+            {t('signUp.title')}
           </Heading>
 
           <Controller
@@ -105,7 +105,7 @@ export function SignUp() {
             name='name'
             render={({ field: { value, onChange } }) => (
               <Input
-                placeholder='Nome'
+                placeholder={t('form.name')}
                 autoCapitalize='words'
                 value={value}
                 onChangeText={onChange}
@@ -120,7 +120,7 @@ export function SignUp() {
             name='email'
             render={({ field: { value, onChange } }) => (
               <Input
-                placeholder='E-mail'
+                placeholder={t('form.email')}
                 keyboardType='email-address'
                 autoCapitalize='none'
                 value={value}
@@ -135,7 +135,7 @@ export function SignUp() {
             name='password'
             render={({ field: { value, onChange } }) => (
               <Input
-                placeholder='Senha'
+                placeholder={t('form.password')}
                 secureTextEntry
                 value={value}
                 onChangeText={onChange}
@@ -151,7 +151,7 @@ export function SignUp() {
             name='password_confirm'
             render={({ field: { value, onChange } }) => (
               <Input
-                placeholder='Confirme a senha'
+                placeholder={t('form.passwordConfirm')}
                 secureTextEntry
                 value={value}
                 onChangeText={onChange}
@@ -164,7 +164,7 @@ export function SignUp() {
 
 
           <Button
-            title='Criar e acessar'
+            title={t('signUp.submit')}
             isLoading={isLoading}
             onPress={handleSubmit(handleSignUp)}
           />
@@ -172,7 +172,7 @@ export function SignUp() {
         </Center>
 
         <Button
-          title='Voltar para o login'
+          title={t('signUp.backToSignIn')}
           variant='outline'
           mt={12}
           mb={2}
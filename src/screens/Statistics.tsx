@@ -0,0 +1,214 @@
+import { useCallback, useMemo, useState } from 'react'
+import { TouchableOpacity } from 'react-native'
+import { Box, FlatList, HStack, Heading, Icon, ScrollView, Text, VStack } from 'native-base'
+import { Feather } from '@expo/vector-icons'
+import { useFocusEffect, useNavigation } from '@react-navigation/native'
+
+import { AppNavigationRoutesProps } from '@routes/app.routes'
+
+import { historyService } from '@services/historyService'
+import { useErrorHandler } from '@hooks/useErrorHandler'
+import { useLocale } from '@hooks/useLocale'
+import { TranslationKey } from '@i18n/index'
+import { buildHistoryStatistics } from '@utils/historyStatistics'
+import { touchTargetHitSlop } from '@utils/accessibility'
+import { HistoryByDayDTO } from '@dtos/HistoryByDayDTO'
+
+import { Group } from '@components/Group'
+import { Loading } from '@components/Loading'
+import { BarChart } from '@components/BarChart'
+import { CalendarHeatmap } from '@components/CalendarHeatmap'
+
+const RANGES: Array<{ label: TranslationKey, days: number }> = [
+  { label: 'statistics.range4Weeks', days: 28 },
+  { label: 'statistics.range3Months', days: 91 },
+  { label: 'statistics.range12Months', days: 364 }
+]
+
+type StatisticProps = {
+  label: string
+  value: number | string
+}
+
+function Statistic({ label, value }: StatisticProps) {
+  return (
+    <VStack flex={1} bg='gray.600' rounded='md' p={4} mx={1}>
+      <Heading color='gray.100' fontSize='xl' fontFamily='heading'>
+        {value}
+      </Heading>
+
+      <Text color='gray.200' fontSize='xs' mt={1}>
+        {label}
+      </Text>
+    </VStack>
+  )
+}
+
+export function Statistics() {
+  const [isLoading, setIsLoading] = useState(true)
+  const [history, setHistory] = useState<HistoryByDayDTO[]>([])
+  const [rangeSelected, setRangeSelected] = useState(RANGES[0])
+
+  const navigation = useNavigation<AppNavigationRoutesProps>()
+  const { handleError } = useErrorHandler()
+  const { t, formatDate } = useLocale()
+
+  const statistics = useMemo(() => {
+    const end = new Date()
+    const start = new Date()
+    start.setDate(end.getDate() - rangeSelected.days + 1)
+
+    return buildHistoryStatistics(history, { start, end })
+  }, [history, rangeSelected])
+
+  const maxGroupCount = Math.max(1, ...statistics.volumeByGroup.map(item => item.exercises))
+
+  function handleGoBack() {
+    navigation.navigate('history')
+  }
+
+  async function fetchHistory() {
+    try {
+      setIsLoading(true)
+      setHistory(await historyService.list())
+    } catch (error) {
+      handleError(error, t('statistics.loadError'))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useFocusEffect(useCallback(() => {
+    fetchHistory()
+  }, []))
+
+  return (
+    <VStack flex={1}>
+      <VStack px={8} bg='gray.600' pt={12} pb={6}>
+        <TouchableOpacity
+          onPress={handleGoBack}
+          hitSlop={touchTargetHitSlop(24)}
+          accessibilityRole='button'
+          accessibilityLabel={t('common.back')}
+        >
+          <Icon
+            as={Feather}
+            name='arrow-left'
+            color='green.500'
+            size={6}
+          />
+        </TouchableOpacity>
+
+        <Heading color='gray.100' fontSize='lg' mt={4} fontFamily='heading'>
+          {t('statistics.title')}
+        </Heading>
+      </VStack>
+
+      <FlatList
+        data={RANGES}
+        keyExtractor={item => item.label}
+        renderItem={({ item }) => (
+          <Group
+            name={t(item.label)}
+            isActive={rangeSelected.label === item.label}
+            onPress={() => setRangeSelected(item)}
+          />
+        )}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        _contentContainerStyle={{ px: 8 }}
+        my={6}
+        maxH={10}
+        minH={10}
+      />
+
+      {isLoading ? <Loading /> :
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ paddingBottom: 36 }}>
+          <VStack px={8}>
+            <HStack mx={-1} mb={2}>
+              <Statistic label={t('statistics.workoutDays')} value={statistics.totalWorkouts} />
+              <Statistic label={t('plan.exercises')} value={statistics.totalExercises} />
+            </HStack>
+
+            <HStack mx={-1}>
+              <Statistic label={t('statistics.currentStreak')} value={t('statistics.streakDays', { days: statistics.streaks.current })} />
+              <Statistic label={t('statistics.longestStreak')} value={t('statistics.streakDays', { days: statistics.streaks.longest })} />
+            </HStack>
+
+            <Heading color='gray.200' fontSize='md' fontFamily='heading' mt={8} mb={3}>
+              {t('statistics.workoutsPerWeek')}
+            </Heading>
+
+            <BarChart
+              data={statistics.workoutsPerWeek.map(week => ({
+                label: formatDate(new Date(`${week.weekStart}T00:00:00`), { day: '2-digit', month: '2-digit' }),
+                value: week.workouts
+              }))}
+            />
+
+            <Heading color='gray.200' fontSize='md' fontFamily='heading' mt={8} mb={3}>
+              {t('statistics.frequency')}
+            </Heading>
+
+            <CalendarHeatmap data={statistics.heatmap} />
+
+            <Heading color='gray.200' fontSize='md' fontFamily='heading' mt={8} mb={3}>
+              {t('statistics.volumeByGroup')}
+            </Heading>
+
+            {statistics.volumeByGroup.length === 0 &&
+              <Text color='gray.300' fontSize='sm'>
+                {t('statistics.empty')}
+              </Text>
+            }
+
+            {statistics.volumeByGroup.map(item => (
+              <VStack key={item.group} mb={3}>
+                <HStack justifyContent='space-between' mb={1}>
+                  <Text color='gray.100' fontSize='sm' textTransform='capitalize'>
+                    {item.group}
+                  </Text>
+
+                  <Text color='gray.200' fontSize='xs'>
+                    {t('plans.exercisesCount', { count: item.exercises })}
+                    {item.volume > 0 ? ` · ${item.volume} kg` : ''}
+                  </Text>
+                </HStack>
+
+                <Box bg='gray.600' rounded='sm' h={2}>
+                  <Box bg='green.500' rounded='sm' h={2} w={`${(item.exercises / maxGroupCount) * 100}%`} />
+                </Box>
+              </VStack>
+            ))}
+
+            <Heading color='gray.200' fontSize='md' fontFamily='heading' mt={8} mb={3}>
+              {t('statistics.topExercises')}
+            </Heading>
+
+            {statistics.topExercises.map((item, index) => (
+              <HStack key={`${item.group}-${item.name}`} bg='gray.600' rounded='md' px={5} py={3} mb={2} alignItems='center'>
+                <Text color='green.500' fontSize='md' fontFamily='heading' mr={4}>
+                  {index + 1}
+                </Text>
+
+                <VStack flex={1}>
+                  <Text color='gray.100' fontSize='md' numberOfLines={1}>
+                    {item.name}
+                  </Text>
+
+                  <Text color='gray.300' fontSize='xs' textTransform='capitalize'>
+                    {item.group}
+                  </Text>
+                </VStack>
+
+                <Text color='gray.200' fontSize='sm'>
+                  {item.count}x
+                </Text>
+              </HStack>
+            ))}
+          </VStack>
+        </ScrollView>
+      }
+    </VStack>
+  )
+}
\ No newline at end of file
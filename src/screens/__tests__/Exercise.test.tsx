@@ -0,0 +1,71 @@
+import { fireEvent, screen } from '@testing-library/react-native'
+
+import { Exercise } from '@screens/Exercise'
+import { exercisesService } from '@services/exercisesService'
+
+import { renderWithProviders } from '../../../test/render'
+
+const mockGoBack = jest.fn()
+const mockToggleFavorite = jest.fn()
+
+jest.mock('@react-navigation/native', () => ({
+  useNavigation: () => ({ goBack: mockGoBack, navigate: jest.fn() }),
+  useRoute: () => ({ params: { exerciseId: '1' } })
+}))
+
+jest.mock('@services/exercisesService', () => ({
+  exercisesService: { getById: jest.fn() }
+}))
+
+jest.mock('@hooks/useFavorites', () => ({
+  useFavorites: () => ({ isFavorite: () => false, toggleFavorite: mockToggleFavorite })
+}))
+
+jest.mock('@hooks/useConnectivity', () => ({
+  useConnectivity: () => ({ isOffline: false })
+}))
+
+jest.mock('@hooks/useCachedImage', () => ({
+  useCachedImage: () => ({ uri: null, handleCacheMiss: jest.fn() })
+}))
+
+const EXERCISE = {
+  id: '1',
+  name: 'Remada unilateral',
+  group: 'costas',
+  series: 3,
+  repetitions: 12,
+  demo: 'demo.gif',
+  thumb: 'thumb.png',
+  updated_at: '2026-10-19T10:00:00.000Z'
+}
+
+describe('Exercise', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(exercisesService.getById as jest.Mock).mockResolvedValue(EXERCISE)
+  })
+
+  it('labels the back arrow', async () => {
+    renderWithProviders(<Exercise />)
+
+    const button = await screen.findByLabelText('Back')
+
+    expect(button.props.accessibilityRole).toBe('button')
+
+    fireEvent.press(button)
+
+    expect(mockGoBack).toHaveBeenCalledTimes(1)
+  })
+
+  it('labels the share and favorite buttons and the exercise heading', async () => {
+    renderWithProviders(<Exercise />)
+
+    expect(await screen.findByRole('button', { name: 'Share exercise' })).toBeTruthy()
+    expect(screen.getByRole('header', { name: 'Remada unilateral' })).toBeTruthy()
+
+    fireEvent.press(screen.getByRole('button', { name: 'Add to favorites' }))
+
+    expect(mockToggleFavorite).toHaveBeenCalledWith(EXERCISE)
+  })
+})
\ No newline at end of file
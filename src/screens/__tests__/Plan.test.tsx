@@ -0,0 +1,72 @@
+import { act, fireEvent, screen, waitFor } from '@testing-library/react-native'
+
+import { Plan } from '@screens/Plan'
+import { plansService } from '@services/plansService'
+
+import { renderWithProviders } from '../../../test/render'
+
+const mockNavigate = jest.fn()
+
+jest.mock('@react-navigation/native', () => ({
+  useNavigation: () => ({ navigate: mockNavigate }),
+  useRoute: () => ({ params: { planId: 'plan-1' } })
+}))
+
+jest.mock('@services/plansService', () => ({
+  plansService: { getById: jest.fn(), update: jest.fn(), remove: jest.fn() }
+}))
+
+jest.mock('@components/ExercisePickerModal', () => ({
+  ExercisePickerModal: () => null
+}))
+
+jest.mock('@hooks/useCachedImage', () => ({
+  useCachedImage: () => ({ uri: null, handleCacheMiss: jest.fn() })
+}))
+
+const PLAN = {
+  id: 'plan-1',
+  name: 'Treino A',
+  weekdays: [1],
+  exercises: [{ exercise_id: '1', name: 'Supino reto', group: 'peito', thumb: 'thumb.png', series: 3, repetitions: 12, updated_at: '2026-10-19T10:00:00.000Z' }]
+}
+
+describe('Plan', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(plansService.getById as jest.Mock).mockResolvedValue(PLAN)
+    ;(plansService.update as jest.Mock).mockImplementation((_, plan) => Promise.resolve({ ...PLAN, ...plan, exercises: PLAN.exercises }))
+    ;(plansService.remove as jest.Mock).mockResolvedValue(undefined)
+  })
+
+  it('asks for confirmation before deleting the plan', async () => {
+    renderWithProviders(<Plan />)
+
+    fireEvent.press(await screen.findByText('Delete workout'))
+
+    expect(plansService.remove).not.toHaveBeenCalled()
+
+    fireEvent.press(await screen.findByText('Delete'))
+
+    await waitFor(() => expect(mockNavigate).toHaveBeenCalledWith('plans'))
+    expect(plansService.remove).toHaveBeenCalledWith('plan-1')
+  })
+
+  it('does not start a plan without a name', async () => {
+    jest.useFakeTimers()
+
+    renderWithProviders(<Plan />)
+
+    fireEvent.changeText(await screen.findByPlaceholderText('Workout name'), '  ')
+    fireEvent.press(screen.getByText('Start workout'))
+
+    expect(await screen.findByText('Enter the workout name.')).toBeTruthy()
+    expect(plansService.update).not.toHaveBeenCalled()
+    expect(mockNavigate).not.toHaveBeenCalled()
+
+    act(() => {
+      jest.runOnlyPendingTimers()
+    })
+    jest.useRealTimers()
+  })
+})
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { ComponentType } from 'react'
+import { screen } from '@testing-library/react-native'
+
+import { AuthContext, AuthContextDataProps } from '@contexts/AuthContext'
+import { ColorScheme } from '@theme/index'
+import { SignIn } from '@screens/SignIn'
+import { SignUp } from '@screens/SignUp'
+import { ForgotPassword } from '@screens/ForgotPassword'
+import { ResetCode } from '@screens/ResetCode'
+import { ResetPassword } from '@screens/ResetPassword'
+
+import { renderWithProviders } from '../../../test/render'
+
+jest.mock('@react-navigation/native', () => ({
+  useNavigation: () => ({ navigate: jest.fn(), replace: jest.fn(), goBack: jest.fn() }),
+  useRoute: () => ({ params: { email: 'maria@email.com', code: '123456' } })
+}))
+
+jest.mock('@hooks/useSocialAuth', () => ({
+  useSocialAuth: () => ({ isGoogleAvailable: false, isAppleAvailable: false, requestIdToken: jest.fn() })
+}))
+
+const AUTH = { user: {}, accounts: [], signIn: jest.fn(), signInWithProvider: jest.fn(), switchAccount: jest.fn() } as unknown as AuthContextDataProps
+
+const SCREENS: Array<[string, ComponentType]> = [
+  ['SignIn', SignIn],
+  ['SignUp', SignUp],
+  ['ForgotPassword', ForgotPassword],
+  ['ResetCode', ResetCode],
+  ['ResetPassword', ResetPassword]
+]
+
+function renderScreen(Screen: ComponentType, colorScheme: ColorScheme) {
+  renderWithProviders(
+    <AuthContext.Provider value={AUTH}>
+      <Screen />
+    </AuthContext.Provider>,
+    { colorScheme }
+  )
+}
+
+describe.each(SCREENS)('%s', (_, Screen) => {
+  it('shows the background photo in dark mode', () => {
+    renderScreen(Screen, 'dark')
+
+    expect(screen.queryByLabelText('People working out')).not.toBeNull()
+  })
+
+  it('hides the background photo in light mode so the dark text stays readable', () => {
+    renderScreen(Screen, 'light')
+
+    expect(screen.queryByLabelText('People working out')).toBeNull()
+    expect(screen.getByText('Train your mind and your body')).toBeTruthy()
+  })
+})
\ No newline at end of file
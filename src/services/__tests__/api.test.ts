@@ -0,0 +1,154 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios'
+
+import { api } from '@services/api'
+import { storageAuthTokenGet, storageAuthTokenSave } from '@storage/storageAuthToken'
+import { storageActiveAccountSet } from '@storage/storageAccounts'
+import { AuthError } from '@utils/AppError'
+
+jest.mock('@storage/storageAuthToken', () => ({
+  storageAuthTokenGet: jest.fn(),
+  storageAuthTokenSave: jest.fn()
+}))
+
+const REFRESH_TOKEN_URL = '/sessions/refresh-token'
+
+const storageAuthTokenGetMock = storageAuthTokenGet as jest.MockedFunction<typeof storageAuthTokenGet>
+const storageAuthTokenSaveMock = storageAuthTokenSave as jest.MockedFunction<typeof storageAuthTokenSave>
+
+function response(config: InternalAxiosRequestConfig, status: number, data: unknown): AxiosResponse {
+  return { config, status, data, statusText: '', headers: {} }
+}
+
+function unauthorized(config: InternalAxiosRequestConfig, message: string) {
+  return new AxiosError(message, AxiosError.ERR_BAD_REQUEST, config, null, response(config, 401, { message }))
+}
+
+describe('api token manager', () => {
+  const signOut = jest.fn()
+  const adapter = jest.fn()
+  const requests: { url?: string, method?: string, authorization: unknown }[] = []
+
+  let unregister: () => void
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    requests.length = 0
+
+    storageAuthTokenGetMock.mockResolvedValue({ token: 'expired-token', refresh_token: 'refresh-token' })
+    storageAuthTokenSaveMock.mockResolvedValue()
+
+    api.defaults.adapter = (config: InternalAxiosRequestConfig) => {
+      requests.push({ url: config.url, method: config.method, authorization: config.headers.Authorization })
+
+      return adapter(config)
+    }
+    api.defaults.headers.common['Authorization'] = 'Bearer expired-token'
+
+    unregister = api.registerInterceptTokenManager(signOut)
+  })
+
+  afterEach(() => {
+    unregister()
+    storageActiveAccountSet(null)
+  })
+
+  it('refreshes the token once for concurrent 401 responses and replays every request', async () => {
+    adapter.mockImplementation(async (config: InternalAxiosRequestConfig) => {
+      if (config.url === REFRESH_TOKEN_URL) {
+        return response(config, 200, { token: 'new-token', refresh_token: 'new-refresh-token' })
+      }
+
+      if (config.headers.Authorization !== 'Bearer new-token') {
+        throw unauthorized(config, 'token.expired')
+      }
+
+      return response(config, 200, { url: config.url })
+    })
+
+    const urls = ['/exercises/1', '/exercises/2', '/history', '/groups']
+
+    const results = await Promise.all(urls.map(url => api.get(url)))
+
+    const refreshCalls = adapter.mock.calls.filter(([config]) => config.url === REFRESH_TOKEN_URL)
+    const replays = requests.filter(({ url, authorization }) => url !== REFRESH_TOKEN_URL && authorization === 'Bearer new-token')
+
+    expect(refreshCalls).toHaveLength(1)
+    expect(refreshCalls[0][0].method).toBe('post')
+    expect(JSON.parse(refreshCalls[0][0].data)).toEqual({ refresh_token: 'refresh-token' })
+    expect(replays.map(({ url }) => url).sort()).toEqual([...urls].sort())
+    expect(results.map(({ data }) => data.url)).toEqual(urls)
+    expect(storageAuthTokenSaveMock).toHaveBeenCalledTimes(1)
+    expect(storageAuthTokenSaveMock).toHaveBeenCalledWith({ token: 'new-token', refresh_token: 'new-refresh-token' }, null)
+    expect(api.defaults.headers.common['Authorization']).toBe('Bearer new-token')
+    expect(signOut).not.toHaveBeenCalled()
+  })
+
+  it('rejects every waiting request and signs out once when the refresh fails', async () => {
+    adapter.mockImplementation(async (config: InternalAxiosRequestConfig) => {
+      throw unauthorized(config, config.url === REFRESH_TOKEN_URL ? 'token.invalid' : 'token.expired')
+    })
+
+    const results = await Promise.allSettled(['/exercises/1', '/exercises/2', '/history'].map(url => api.get(url)))
+
+    const refreshCalls = adapter.mock.calls.filter(([config]) => config.url === REFRESH_TOKEN_URL)
+
+    expect(refreshCalls).toHaveLength(1)
+    expect(results.every(({ status }) => status === 'rejected')).toBe(true)
+    results.forEach(result => {
+      expect((result as PromiseRejectedResult).reason).toBeInstanceOf(AuthError)
+    })
+    expect(signOut).toHaveBeenCalledTimes(1)
+    expect(storageAuthTokenSaveMock).not.toHaveBeenCalled()
+  })
+
+  it('keeps the original request headers when replaying after a refresh', async () => {
+    adapter.mockImplementation(async (config: InternalAxiosRequestConfig) => {
+      if (config.url === REFRESH_TOKEN_URL) {
+        return response(config, 200, { token: 'new-token', refresh_token: 'new-refresh-token' })
+      }
+
+      if (config.headers.Authorization !== 'Bearer new-token') {
+        throw unauthorized(config, 'token.expired')
+      }
+
+      return response(config, 200, {})
+    })
+
+    await api.post('/history', { exercise_id: '1' }, {
+      headers: { 'Content-Type': 'application/json', 'X-Request-Id': 'request-1' }
+    })
+
+    const [replayConfig] = adapter.mock.calls[adapter.mock.calls.length - 1]
+
+    expect(replayConfig.url).toBe('/history')
+    expect(replayConfig.headers.Authorization).toBe('Bearer new-token')
+    expect(replayConfig.headers['X-Request-Id']).toBe('request-1')
+    expect(replayConfig.headers['Content-Type']).toBe('application/json')
+    expect(JSON.parse(replayConfig.data)).toEqual({ exercise_id: '1' })
+  })
+
+  it('stores the refreshed token for the account that made the request after a switch', async () => {
+    storageActiveAccountSet('account-a')
+
+    adapter.mockImplementation(async (config: InternalAxiosRequestConfig) => {
+      if (config.url === REFRESH_TOKEN_URL) {
+        storageActiveAccountSet('account-b')
+        api.defaults.headers.common['Authorization'] = 'Bearer account-b-token'
+
+        return response(config, 200, { token: 'new-token', refresh_token: 'new-refresh-token' })
+      }
+
+      if (config.headers.Authorization !== 'Bearer new-token') {
+        throw unauthorized(config, 'token.expired')
+      }
+
+      return response(config, 200, {})
+    })
+
+    await api.get('/history')
+
+    expect(storageAuthTokenGetMock).toHaveBeenCalledWith('account-a')
+    expect(storageAuthTokenSaveMock).toHaveBeenCalledWith({ token: 'new-token', refresh_token: 'new-refresh-token' }, 'account-a')
+    expect(api.defaults.headers.common['Authorization']).toBe('Bearer account-b-token')
+  })
+})
\ No newline at end of file
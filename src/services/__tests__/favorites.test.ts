@@ -0,0 +1,74 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { favoritesService } from '@services/favoritesService'
+import { favoritesSync, favoritesToggle } from '@services/favorites'
+import { storageFavoritesGet } from '@storage/storageFavorites'
+import { AppError, NetworkError } from '@utils/AppError'
+
+jest.mock('@services/favoritesService', () => ({
+  favoritesService: { list: jest.fn(), add: jest.fn(), remove: jest.fn() }
+}))
+
+const EXERCISE = {
+  id: '1',
+  name: 'Supino reto',
+  group: 'peito',
+  series: 3,
+  repetitions: 12,
+  demo: 'demo.gif',
+  thumb: 'thumb.png',
+  updated_at: '2026-10-19T10:00:00.000Z'
+}
+
+const addMock = favoritesService.add as jest.Mock
+const listMock = favoritesService.list as jest.Mock
+
+describe('favorites', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    await AsyncStorage.clear()
+  })
+
+  it('returns operations the server rejected and drops them from the queue', async () => {
+    const error = new AppError('Exercise not found.', { status: 404 })
+
+    addMock.mockRejectedValue(error)
+    listMock.mockResolvedValue([])
+
+    await favoritesToggle(EXERCISE)
+
+    const result = await favoritesSync()
+
+    expect(result).toEqual({ exercises: [], rejected: [{ exerciseId: '1', operation: 'add', error }] })
+    expect((await storageFavoritesGet()).pending).toEqual({})
+  })
+
+  it('keeps pending operations and the local list while offline', async () => {
+    addMock.mockRejectedValue(new NetworkError())
+
+    await favoritesToggle(EXERCISE)
+
+    const result = await favoritesSync()
+
+    expect(result).toEqual({ exercises: [EXERCISE], rejected: [] })
+    expect(listMock).not.toHaveBeenCalled()
+    expect((await storageFavoritesGet()).pending).toEqual({ '1': 'add' })
+  })
+
+  it('keeps the local list when the server list cannot be reached', async () => {
+    addMock.mockResolvedValue(undefined)
+    listMock.mockRejectedValue(new NetworkError())
+
+    await favoritesToggle(EXERCISE)
+
+    expect(await favoritesSync()).toEqual({ exercises: [EXERCISE], rejected: [] })
+  })
+
+  it('surfaces a server list failure that retrying will not fix', async () => {
+    const error = new AppError('Invalid response.')
+
+    listMock.mockRejectedValue(error)
+
+    await expect(favoritesSync()).rejects.toBe(error)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { historyService } from '@services/historyService'
+import { historyOutboxFlush, historyOutboxRegister, historyOutboxRejectionsSubscribe } from '@services/historyOutbox'
+import { storageHistoryOutboxAdd, storageHistoryOutboxGet } from '@storage/storageHistoryOutbox'
+import { AppError } from '@utils/AppError'
+
+jest.mock('@services/historyService', () => ({
+  historyService: { register: jest.fn() }
+}))
+
+jest.mock('@services/reminders', () => ({
+  inactivityNudgeSchedule: jest.fn(() => Promise.resolve())
+}))
+
+const registerMock = historyService.register as jest.Mock
+
+const ITEM = {
+  id: 'outbox-1',
+  exercise_id: '1',
+  name: 'Supino reto',
+  group: 'peito',
+  created_at: '2026-10-19T10:00:00.000Z'
+}
+
+describe('historyOutbox', () => {
+  const listener = jest.fn()
+
+  let unsubscribe: () => void
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    unsubscribe = historyOutboxRejectionsSubscribe(listener)
+  })
+
+  afterEach(() => {
+    unsubscribe()
+  })
+
+  it('notifies subscribers about rejected items removed by a background flush', async () => {
+    registerMock.mockRejectedValue(new AppError('Exercise not found.', { status: 404 }))
+
+    await storageHistoryOutboxAdd(ITEM)
+    await historyOutboxFlush()
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener.mock.calls[0][0]).toEqual([{ item: ITEM, error: expect.any(AppError) }])
+    expect(await storageHistoryOutboxGet()).toEqual([])
+  })
+
+  it('keeps a rejection of the item being registered for its caller', async () => {
+    registerMock.mockRejectedValue(new AppError('Exercise not found.', { status: 404 }))
+
+    await expect(historyOutboxRegister({ exercise_id: '1', name: 'Supino reto', group: 'peito' })).rejects.toBeInstanceOf(AppError)
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
\ No newline at end of file
@@ -0,0 +1,95 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import * as Notifications from 'expo-notifications'
+
+import { remindersCancelAll, remindersReschedule } from '@services/reminders'
+import { plansService } from '@services/plansService'
+import { storageActiveAccountSet } from '@storage/storageAccounts'
+import { storageRemindersGet, storageRemindersSave } from '@storage/storageReminders'
+
+jest.mock('expo-notifications', () => ({
+  getAllScheduledNotificationsAsync: jest.fn(),
+  cancelScheduledNotificationAsync: jest.fn(),
+  getPermissionsAsync: jest.fn(),
+  scheduleNotificationAsync: jest.fn()
+}))
+
+jest.mock('expo-linking', () => ({
+  createURL: (path: string) => `ignitegym://${path}`
+}))
+
+jest.mock('@services/plansService', () => ({
+  plansService: { list: jest.fn() }
+}))
+
+const getAllScheduledMock = Notifications.getAllScheduledNotificationsAsync as jest.Mock
+const scheduleMock = Notifications.scheduleNotificationAsync as jest.Mock
+
+const REMINDERS = { isEnabled: true, weekdays: [1, 3], time: '07:00', inactivityDays: 3 }
+
+describe('reminders', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    await AsyncStorage.clear()
+    storageActiveAccountSet(null)
+
+    getAllScheduledMock.mockResolvedValue([
+      { identifier: 'weekday-reminder-1' },
+      { identifier: 'weekday-reminder-3' },
+      { identifier: 'inactivity-nudge' },
+      { identifier: 'other-notification' }
+    ])
+    ;(Notifications.getPermissionsAsync as jest.Mock).mockResolvedValue({ granted: true })
+  })
+
+  it('cancels the weekday reminders and the inactivity nudge and keeps the account settings', async () => {
+    storageActiveAccountSet('account-a')
+    await storageRemindersSave(REMINDERS)
+
+    await remindersCancelAll()
+
+    const cancelled = (Notifications.cancelScheduledNotificationAsync as jest.Mock).mock.calls.map(([identifier]) => identifier)
+
+    expect(cancelled.sort()).toEqual(['inactivity-nudge', 'weekday-reminder-1', 'weekday-reminder-3'])
+    expect(await storageRemindersGet()).toEqual(REMINDERS)
+  })
+
+  it('keeps reminder settings per account', async () => {
+    storageActiveAccountSet('account-a')
+    await storageRemindersSave(REMINDERS)
+
+    storageActiveAccountSet('account-b')
+
+    expect((await storageRemindersGet()).isEnabled).toBe(false)
+  })
+
+  it('reschedules from the active account settings and plans', async () => {
+    storageActiveAccountSet('account-a')
+    await storageRemindersSave(REMINDERS)
+
+    storageActiveAccountSet('account-b')
+    await storageRemindersSave({ isEnabled: true, weekdays: [2], time: '19:30', inactivityDays: null })
+
+    ;(plansService.list as jest.Mock).mockResolvedValue([
+      { id: 'plan-b', name: 'Pernas', weekdays: [2], exercises: [{ exercise_id: '42', series: 3, repetitions: 10 }] }
+    ])
+
+    await remindersReschedule()
+
+    expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith('weekday-reminder-1')
+    expect(scheduleMock).toHaveBeenCalledTimes(1)
+    expect(scheduleMock.mock.calls[0][0]).toEqual(expect.objectContaining({
+      identifier: 'weekday-reminder-2',
+      content: expect.objectContaining({ data: { url: 'ignitegym://exercise/42' } }),
+      trigger: expect.objectContaining({ weekday: 3, hour: 19, minute: 30 })
+    }))
+  })
+
+  it('only cancels when the active account has reminders disabled', async () => {
+    storageActiveAccountSet('account-b')
+
+    await remindersReschedule()
+
+    expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledTimes(3)
+    expect(scheduleMock).not.toHaveBeenCalled()
+  })
+})
\ No newline at end of file
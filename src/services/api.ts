@@ -1,99 +1,190 @@
-import axios, { AxiosError, AxiosInstance } from 'axios'
-import { AppError } from '@utils/AppError'
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios'
+import { AppError, AuthError, NetworkError, ServerError, TimeoutError, ValidationError } from '@utils/AppError'
+import { DEFAULT_API_URL } from '@utils/environment'
+import { isTokenExpiring } from '@utils/jwt'
 import { storageAuthTokenGet, storageAuthTokenSave } from '@storage/storageAuthToken'
+import { storageActiveAccountGet } from '@storage/storageAccounts'
+import { t } from '@i18n/index'
 
 type SignOut = () => void
 
-type PromiseType = {
-  onSuccess: (token: string) => void
-  onFailure: (error: AxiosError) => void
-}
-
 type APIIntanceProps = AxiosInstance & {
   registerInterceptTokenManager: (signOut: SignOut) => () => void
 }
 
+type RetryableRequestConfig = InternalAxiosRequestConfig & {
+  retryCount?: number
+}
+
+type RefreshableRequestConfig = InternalAxiosRequestConfig & {
+  isRetryAfterRefresh?: boolean
+  accountId?: string | null
+}
+
+type ApiErrorResponse = {
+  message?: string
+  code?: string
+  errors?: unknown
+}
+
+const REQUEST_TIMEOUT_IN_MS = 15000
+const MAX_GET_RETRIES = 3
+const RETRY_BASE_DELAY_IN_MS = 500
+const TOKEN_REFRESH_MARGIN_IN_MS = 60 * 1000
+const REFRESH_TOKEN_URL = '/sessions/refresh-token'
+
 const api = axios.create({
-  baseURL: 'http://192.168.3.16:3333'
+  baseURL: DEFAULT_API_URL,
+  timeout: REQUEST_TIMEOUT_IN_MS
 }) as APIIntanceProps
 
-let failedQueue: Array<PromiseType> = []
-let isRefreshing = false
+function shouldRetryRequest(requestError: AxiosError) {
+  const config = requestError.config as RetryableRequestConfig | undefined
+
+  if (!config || config.method?.toLowerCase() !== 'get') return false
+  if ((config.retryCount ?? 0) >= MAX_GET_RETRIES) return false
+
+  return !requestError.response || requestError.response.status >= 500
+}
+
+async function retryRequest(config: RetryableRequestConfig) {
+  config.retryCount = (config.retryCount ?? 0) + 1
+
+  const delay = RETRY_BASE_DELAY_IN_MS * 2 ** (config.retryCount - 1)
+  await new Promise(resolve => setTimeout(resolve, delay))
+
+  return api(config)
+}
+
+function parseFieldErrors(errors: unknown) {
+  const fieldErrors: Record<string, string> = {}
+
+  if (Array.isArray(errors)) {
+    errors.forEach(({ field, message }) => {
+      if (field && message) fieldErrors[field] = String(message)
+    })
+  } else if (errors && typeof errors === 'object') {
+    Object.entries(errors).forEach(([field, message]) => {
+      fieldErrors[field] = String(Array.isArray(message) ? message[0] : message)
+    })
+  }
+
+  return fieldErrors
+}
+
+function parseRequestError(requestError: AxiosError<ApiErrorResponse>) {
+  if (!requestError.response) {
+    const isTimeout = requestError.code === 'ECONNABORTED' || requestError.code === 'ETIMEDOUT'
+
+    return isTimeout ? new TimeoutError() : new NetworkError()
+  }
+
+  const { status, data } = requestError.response
+  const code = data?.code
+
+  if (status === 401) {
+    return new AuthError(data?.message ?? t('errors.sessionExpired'), { code })
+  }
+
+  if (status === 400 || status === 422) {
+    return new ValidationError(data?.message ?? t('errors.validation'), parseFieldErrors(data?.errors), { status, code })
+  }
+
+  if (status >= 500) {
+    return new ServerError(undefined, { status, code })
+  }
+
+  return new AppError(data?.message ?? t('errors.generic'), { status, code })
+}
 
 api.registerInterceptTokenManager = signOut => {
-  const interceptTokenManager = api.interceptors.response.use(response => response, async (requestError) => {
-    if (requestError?.response?.status === 401) {
-      if (requestError.response.data?.message === 'token.expired' || requestError.response.data?.message === 'token.invalid') {
-        const { refresh_token } = await storageAuthTokenGet()
+  const refreshPromises = new Map<string | null, Promise<string>>()
+
+  function refreshToken(accountId: string | null) {
+    let refreshPromise = refreshPromises.get(accountId)
+
+    if (!refreshPromise) {
+      refreshPromise = (async () => {
+        const { refresh_token } = await storageAuthTokenGet(accountId)
 
         if (!refresh_token) {
-          signOut()
-          return Promise.reject(requestError)
+          throw new AuthError(t('errors.sessionExpired'))
+        }
+
+        const { data } = await api.post(REFRESH_TOKEN_URL, { refresh_token })
+        await storageAuthTokenSave({ token: data.token, refresh_token: data.refresh_token }, accountId)
+
+        if (storageActiveAccountGet() === accountId) {
+          api.defaults.headers.common['Authorization'] = `Bearer ${data.token}`
         }
 
-        const originalRequestConfig = requestError.config
-
-        if (isRefreshing) {
-          return new Promise((resolve, reject) => {
-            failedQueue.push({
-              onSuccess: (token: string) => {
-                originalRequestConfig.headers = { 'Authorization': `Bearer ${token}` }
-                resolve(api(originalRequestConfig))
-              },
-              onFailure: (error: AxiosError) => {
-                reject(error)
-              }
-            })
-          })
+        return data.token as string
+      })().catch(error => {
+        if (error instanceof AuthError && storageActiveAccountGet() === accountId) {
+          signOut()
         }
 
-        isRefreshing = true
+        throw error
+      }).finally(() => {
+        refreshPromises.delete(accountId)
+      })
 
-        return new Promise(async (resolve, reject) => {
-          try {
-            const { data } = await api.post('/sessions/refresh-token', { refresh_token })
-            await storageAuthTokenSave({ token: data.token, refresh_token: data.refresh_token })
+      refreshPromises.set(accountId, refreshPromise)
+    }
 
-            if (originalRequestConfig.data) {
-              originalRequestConfig.data = JSON.parse(originalRequestConfig.data)
-            }
+    return refreshPromise
+  }
 
-            originalRequestConfig.headers = { 'Authorization': `Bearer ${data.token}` }
-            api.defaults.headers.common['Authorization'] = `Bearer ${data.token}`
+  const interceptRequest = api.interceptors.request.use(async (config: RefreshableRequestConfig) => {
+    const authorization = config.headers.Authorization
 
-            failedQueue.forEach(request => {
-              request.onSuccess(data.token)
-            })
+    if (config.accountId === undefined) {
+      config.accountId = storageActiveAccountGet()
+    }
 
-            console.log('TOKEN atualizado', data.token)
+    if (config.url === REFRESH_TOKEN_URL || typeof authorization !== 'string') {
+      return config
+    }
 
-            resolve(api(originalRequestConfig))
-          } catch (error: any) {
-            failedQueue.forEach(request => {
-              request.onFailure(error)
-            })
+    if (isTokenExpiring(authorization.replace('Bearer ', ''), TOKEN_REFRESH_MARGIN_IN_MS)) {
+      try {
+        config.headers.Authorization = `Bearer ${await refreshToken(config.accountId)}`
+      } catch {
+        return config
+      }
+    }
 
-            signOut()
-            reject(error)
-          } finally {
-            isRefreshing = false
-            failedQueue = []
-          }
-        })
+    return config
+  })
 
+  const interceptTokenManager = api.interceptors.response.use(response => response, async (requestError) => {
+    const originalRequestConfig = requestError.config as RefreshableRequestConfig | undefined
+
+    if (requestError?.response?.status === 401 && originalRequestConfig?.url !== REFRESH_TOKEN_URL) {
+      const message = requestError.response.data?.message
+      const isTokenError = message === 'token.expired' || message === 'token.invalid'
+
+      if (isTokenError && originalRequestConfig && !originalRequestConfig.isRetryAfterRefresh) {
+        const token = await refreshToken(originalRequestConfig.accountId ?? null)
+
+        originalRequestConfig.isRetryAfterRefresh = true
+        originalRequestConfig.headers.Authorization = `Bearer ${token}`
+
+        return api(originalRequestConfig)
       }
 
       signOut()
     }
 
-    if (requestError.response && requestError.response.data) {
-      return Promise.reject(new AppError(requestError.response.data.message))
-    } else {
-      return Promise.reject(requestError)
+    if (shouldRetryRequest(requestError)) {
+      return retryRequest(requestError.config)
     }
+
+    return Promise.reject(parseRequestError(requestError))
   })
 
   return () => {
+    api.interceptors.request.eject(interceptRequest)
     api.interceptors.response.eject(interceptTokenManager)
   }
 }
@@ -0,0 +1,51 @@
+import * as FileSystem from 'expo-file-system'
+import * as ImageManipulator from 'expo-image-manipulator'
+import { ImagePickerAsset } from 'expo-image-picker'
+
+import { AppError } from '@utils/AppError'
+import { t } from '@i18n/index'
+
+const AVATAR_SIZE_IN_PX = 512
+const AVATAR_COMPRESS_QUALITY = 0.7
+const AVATAR_MAX_SIZE_IN_BYTES = 5 * 1024 * 1024
+const AVATAR_ALLOWED_EXTENSIONS = ['jpg', 'jpeg', 'png', 'heic', 'heif', 'webp']
+
+type FileSystemProps = FileSystem.FileInfo & {
+  size?: number
+}
+
+export type AvatarImageFile = {
+  name: string
+  uri: string
+  type: string
+}
+
+export async function avatarImagePrepare(asset: ImagePickerAsset, userName: string): Promise<AvatarImageFile> {
+  const extension = (asset.fileName ?? asset.uri).split('.').pop()?.toLowerCase() ?? ''
+
+  if (asset.type !== 'image' || !AVATAR_ALLOWED_EXTENSIONS.includes(extension)) {
+    throw new AppError(t('avatar.unsupportedFormat'))
+  }
+
+  const resize = asset.width > asset.height
+    ? { height: Math.min(asset.height, AVATAR_SIZE_IN_PX) }
+    : { width: Math.min(asset.width, AVATAR_SIZE_IN_PX) }
+
+  const image = await ImageManipulator.manipulateAsync(
+    asset.uri,
+    [{ resize }],
+    { compress: AVATAR_COMPRESS_QUALITY, format: ImageManipulator.SaveFormat.JPEG }
+  )
+
+  const imageInfo = await FileSystem.getInfoAsync(image.uri) as FileSystemProps
+
+  if (!imageInfo.exists || !imageInfo.size || imageInfo.size > AVATAR_MAX_SIZE_IN_BYTES) {
+    throw new AppError(t('avatar.tooLarge'))
+  }
+
+  return {
+    name: `${userName}.jpg`.toLowerCase(),
+    uri: image.uri,
+    type: 'image/jpeg'
+  }
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import * as FileSystem from 'expo-file-system'
+import * as Sharing from 'expo-sharing'
+
+import { UserDTO } from '@dtos/UserDTO'
+import { historyService } from '@services/historyService'
+import { AppError } from '@utils/AppError'
+import { t } from '@i18n/index'
+import { DataExportFormat, buildDataExportCsv, buildDataExportJson } from '@utils/dataExport'
+
+const MIME_TYPES: Record<DataExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv'
+}
+
+export async function dataExportShare(user: UserDTO, format: DataExportFormat) {
+  if (!await Sharing.isAvailableAsync()) {
+    throw new AppError(t('dataExport.sharingUnavailable'))
+  }
+
+  const history = await historyService.list()
+
+  const content = format === 'json'
+    ? buildDataExportJson(user, history)
+    : buildDataExportCsv(user, history)
+
+  const fileUri = `${FileSystem.cacheDirectory}ignitegym-meus-dados.${format}`
+
+  await FileSystem.writeAsStringAsync(fileUri, content)
+
+  await Sharing.shareAsync(fileUri, {
+    mimeType: MIME_TYPES[format],
+    dialogTitle: t('dataExport.dialogTitle')
+  })
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { api } from '@services/api'
+import { exerciseSchema, exercisesSchema, groupsSchema, validateResponse } from '@services/validation'
+
+async function listGroups() {
+  const response = await api.get('/groups')
+
+  return validateResponse(groupsSchema, response.data)
+}
+
+async function listByGroup(group: string) {
+  const response = await api.get(`/exercises/bygroup/${group}`)
+
+  return validateResponse(exercisesSchema, response.data)
+}
+
+async function getById(exerciseId: string) {
+  const response = await api.get(`/exercises/${exerciseId}`)
+
+  return validateResponse(exerciseSchema, response.data)
+}
+
+export const exercisesService = { listGroups, listByGroup, getById }
\ No newline at end of file
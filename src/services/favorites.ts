@@ -0,0 +1,79 @@
+import { favoritesService } from '@services/favoritesService'
+import { AppError, isRetryableError } from '@utils/AppError'
+import { ExerciseDTO } from '@dtos/ExerciseDTO'
+import { storageFavoritesGet, storageFavoritesSave } from '@storage/storageFavorites'
+
+export type FavoritesSyncRejection = {
+  exerciseId: string
+  operation: 'add' | 'remove'
+  error: AppError
+}
+
+export type FavoritesSyncResult = {
+  exercises: ExerciseDTO[]
+  rejected: FavoritesSyncRejection[]
+}
+
+let queue: Promise<unknown> = Promise.resolve()
+
+function enqueue<T>(task: () => Promise<T>) {
+  const result = queue.then(task)
+  queue = result.catch(() => undefined)
+
+  return result
+}
+
+async function sync(): Promise<FavoritesSyncResult> {
+  const favorites = await storageFavoritesGet()
+  const rejected: FavoritesSyncRejection[] = []
+
+  for (const [exerciseId, operation] of Object.entries(favorites.pending)) {
+    try {
+      if (operation === 'add') {
+        await favoritesService.add(exerciseId)
+      } else {
+        await favoritesService.remove(exerciseId)
+      }
+    } catch (error) {
+      if (isRetryableError(error) || !(error instanceof AppError)) {
+        return { exercises: favorites.exercises, rejected }
+      }
+
+      rejected.push({ exerciseId, operation, error })
+    }
+
+    delete favorites.pending[exerciseId]
+    await storageFavoritesSave(favorites)
+  }
+
+  try {
+    favorites.exercises = await favoritesService.list()
+    await storageFavoritesSave(favorites)
+  } catch (error) {
+    if (!isRetryableError(error)) throw error
+  }
+
+  return { exercises: favorites.exercises, rejected }
+}
+
+async function toggle(exercise: ExerciseDTO) {
+  const favorites = await storageFavoritesGet()
+  const isFavorite = favorites.exercises.some(({ id }) => id === exercise.id)
+
+  favorites.exercises = isFavorite
+    ? favorites.exercises.filter(({ id }) => id !== exercise.id)
+    : [...favorites.exercises, exercise]
+  favorites.pending[exercise.id] = isFavorite ? 'remove' : 'add'
+
+  await storageFavoritesSave(favorites)
+
+  return favorites.exercises
+}
+
+export function favoritesSync() {
+  return enqueue(sync)
+}
+
+export function favoritesToggle(exercise: ExerciseDTO) {
+  return enqueue(() => toggle(exercise))
+}
\ No newline at end of file
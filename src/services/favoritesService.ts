@@ -0,0 +1,18 @@
+import { api } from '@services/api'
+import { exercisesSchema, validateResponse } from '@services/validation'
+
+async function list() {
+  const response = await api.get('/favorites')
+
+  return validateResponse(exercisesSchema, response.data)
+}
+
+async function add(exerciseId: string) {
+  await api.post('/favorites', { exercise_id: exerciseId })
+}
+
+async function remove(exerciseId: string) {
+  await api.delete(`/favorites/${exerciseId}`)
+}
+
+export const favoritesService = { list, add, remove }
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { historyService } from '@services/historyService'
+import { inactivityNudgeSchedule } from '@services/reminders'
+import { AppError, isRetryableError } from '@utils/AppError'
+import {
+  StorageHistoryOutboxItem,
+  storageHistoryOutboxAdd,
+  storageHistoryOutboxGet,
+  storageHistoryOutboxRemove
+} from '@storage/storageHistoryOutbox'
+import { storageActiveAccountGet } from '@storage/storageAccounts'
+
+export type HistoryOutboxRejection = {
+  item: StorageHistoryOutboxItem
+  error: AppError
+}
+
+export type HistoryOutboxFlushResult = {
+  rejected: HistoryOutboxRejection[]
+  pending: StorageHistoryOutboxItem[]
+}
+
+type HistoryOutboxRejectionListener = (rejected: HistoryOutboxRejection[]) => void
+
+let flushing: Promise<HistoryOutboxFlushResult> | null = null
+
+const registeringItemIds = new Set<string>()
+const rejectionListeners = new Set<HistoryOutboxRejectionListener>()
+
+function createOutboxItemId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+async function flush(accountId: string | null): Promise<HistoryOutboxFlushResult> {
+  const items = await storageHistoryOutboxGet(accountId)
+  const rejected: HistoryOutboxRejection[] = []
+
+  for (const item of items) {
+    if (storageActiveAccountGet() !== accountId) break
+
+    try {
+      await historyService.register({
+        exercise_id: item.exercise_id,
+        created_at: item.created_at,
+        sets: item.sets
+      }, item.id)
+    } catch (error) {
+      if (isRetryableError(error) || !(error instanceof AppError)) break
+
+      rejected.push({ item, error })
+    }
+
+    await storageHistoryOutboxRemove(item.id, accountId)
+  }
+
+  return { rejected, pending: await storageHistoryOutboxGet(accountId) }
+}
+
+export function historyOutboxFlush(): Promise<HistoryOutboxFlushResult> {
+  if (flushing) {
+    return flushing.then(() => historyOutboxFlush())
+  }
+
+  flushing = flush(storageActiveAccountGet()).then(result => {
+    const rejected = result.rejected.filter(({ item }) => !registeringItemIds.has(item.id))
+
+    if (rejected.length > 0) {
+      rejectionListeners.forEach(listener => listener(rejected))
+    }
+
+    return result
+  }).finally(() => {
+    flushing = null
+  })
+
+  return flushing
+}
+
+export function historyOutboxRejectionsSubscribe(listener: HistoryOutboxRejectionListener) {
+  rejectionListeners.add(listener)
+
+  return () => {
+    rejectionListeners.delete(listener)
+  }
+}
+
+export async function historyOutboxRegister(registration: Omit<StorageHistoryOutboxItem, 'id' | 'created_at'>) {
+  const item: StorageHistoryOutboxItem = {
+    ...registration,
+    id: createOutboxItemId(),
+    created_at: new Date().toISOString()
+  }
+
+  await storageHistoryOutboxAdd(item)
+  inactivityNudgeSchedule(new Date(item.created_at)).catch(() => undefined)
+
+  registeringItemIds.add(item.id)
+
+  const { rejected, pending } = await historyOutboxFlush().finally(() => {
+    registeringItemIds.delete(item.id)
+  })
+
+  const rejection = rejected.find(({ item: { id } }) => id === item.id)
+
+  if (rejection) {
+    throw rejection.error
+  }
+
+  return { isPending: pending.some(({ id }) => id === item.id) }
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { api } from '@services/api'
+import { historyByDaySchema, validateResponse } from '@services/validation'
+import { ExerciseSetDTO } from '@dtos/ExerciseSetDTO'
+
+export type HistoryCursor = {
+  id: string
+  created_at: string
+}
+
+type HistoryRegisterProps = {
+  exercise_id: string
+  created_at: string
+  sets?: ExerciseSetDTO[]
+}
+
+async function list() {
+  const response = await api.get('/history')
+
+  return validateResponse(historyByDaySchema, response.data)
+}
+
+async function listPage(cursor: HistoryCursor | null, perPage: number) {
+  const response = await api.get('/history', {
+    params: {
+      per_page: perPage,
+      before_created_at: cursor?.created_at,
+      before_id: cursor?.id
+    }
+  })
+
+  return validateResponse(historyByDaySchema, response.data)
+}
+
+async function register(registration: HistoryRegisterProps, idempotencyKey: string) {
+  await api.post('/history', registration, {
+    headers: { 'Idempotency-Key': idempotencyKey }
+  })
+}
+
+async function updateCreatedAt(historyId: string, created_at: string) {
+  await api.patch(`/history/${historyId}`, { created_at })
+}
+
+async function remove(historyId: string) {
+  await api.delete(`/history/${historyId}`)
+}
+
+export const historyService = { list, listPage, register, updateCreatedAt, remove }
\ No newline at end of file
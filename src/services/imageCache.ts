@@ -0,0 +1,154 @@
+import * as FileSystem from 'expo-file-system'
+
+import { AppError } from '@utils/AppError'
+import { t } from '@i18n/index'
+import { StorageImageCacheIndex, storageImageCacheGet, storageImageCacheSave } from '@storage/storageImageCache'
+
+export type ImageCacheSource = {
+  key: string
+  url: string
+  version: string
+}
+
+const IMAGE_CACHE_DIRECTORY = `${FileSystem.documentDirectory}image-cache/`
+const IMAGE_CACHE_MAX_SIZE_IN_BYTES = 100 * 1024 * 1024
+const INDEX_PERSIST_DELAY_IN_MS = 1000
+
+type FileSystemProps = FileSystem.FileInfo & {
+  size?: number
+}
+
+let index: StorageImageCacheIndex | null = null
+let indexLoading: Promise<StorageImageCacheIndex> | null = null
+let persistTimeout: ReturnType<typeof setTimeout> | null = null
+
+const downloads = new Map<string, Promise<string>>()
+
+function fileUri(file: string) {
+  return `${IMAGE_CACHE_DIRECTORY}${file}`
+}
+
+function fileName({ key, version }: ImageCacheSource) {
+  return `${version.replace(/\W/g, '')}-${key.replace(/[^\w.-]/g, '_')}`
+}
+
+async function indexLoad() {
+  if (index) return index
+
+  if (!indexLoading) {
+    indexLoading = (async () => {
+      const stored = await storageImageCacheGet()
+
+      if (Object.keys(stored).length === 0) {
+        await FileSystem.deleteAsync(IMAGE_CACHE_DIRECTORY, { idempotent: true })
+      }
+
+      await FileSystem.makeDirectoryAsync(IMAGE_CACHE_DIRECTORY, { intermediates: true })
+
+      index = stored
+      return stored
+    })().finally(() => {
+      indexLoading = null
+    })
+  }
+
+  return indexLoading
+}
+
+function indexPersist() {
+  if (persistTimeout) clearTimeout(persistTimeout)
+
+  persistTimeout = setTimeout(() => {
+    persistTimeout = null
+
+    if (index) storageImageCacheSave(index).catch(() => undefined)
+  }, INDEX_PERSIST_DELAY_IN_MS)
+}
+
+async function evict(cache: StorageImageCacheIndex, keyToKeep: string) {
+  let totalSize = Object.values(cache).reduce((total, { size }) => total + size, 0)
+
+  const leastRecentlyUsed = Object.entries(cache)
+    .filter(([key]) => key !== keyToKeep)
+    .sort(([, a], [, b]) => a.accessed_at - b.accessed_at)
+
+  for (const [key, entry] of leastRecentlyUsed) {
+    if (totalSize <= IMAGE_CACHE_MAX_SIZE_IN_BYTES) break
+
+    await FileSystem.deleteAsync(fileUri(entry.file), { idempotent: true })
+    delete cache[key]
+    totalSize -= entry.size
+  }
+}
+
+async function download(source: ImageCacheSource) {
+  const cache = await indexLoad()
+  const file = fileName(source)
+
+  const { status } = await FileSystem.downloadAsync(source.url, fileUri(file))
+
+  if (status !== 200) {
+    await FileSystem.deleteAsync(fileUri(file), { idempotent: true })
+    throw new AppError(t('imageCache.downloadError'), { status })
+  }
+
+  const fileInfo = await FileSystem.getInfoAsync(fileUri(file)) as FileSystemProps
+  const previous = cache[source.key]
+
+  if (previous && previous.file !== file) {
+    await FileSystem.deleteAsync(fileUri(previous.file), { idempotent: true })
+  }
+
+  cache[source.key] = {
+    file,
+    version: source.version,
+    size: fileInfo.size ?? 0,
+    accessed_at: Date.now()
+  }
+
+  await evict(cache, source.key)
+  indexPersist()
+
+  return fileUri(file)
+}
+
+export async function imageCacheGet(source: ImageCacheSource) {
+  const cache = await indexLoad()
+  const entry = cache[source.key]
+
+  if (entry && entry.version === source.version) {
+    entry.accessed_at = Date.now()
+    indexPersist()
+
+    return fileUri(entry.file)
+  }
+
+  const downloadKey = fileName(source)
+  let pending = downloads.get(downloadKey)
+
+  if (!pending) {
+    pending = download(source).finally(() => {
+      downloads.delete(downloadKey)
+    })
+
+    downloads.set(downloadKey, pending)
+  }
+
+  return pending
+}
+
+export async function imageCachePrefetch(sources: ImageCacheSource[], onProgress?: (done: number, total: number) => void) {
+  let failed = 0
+
+  for (const [position, source] of sources.entries()) {
+    try {
+      await imageCacheGet(source)
+    } catch {
+      failed++
+    }
+
+    onProgress?.(position + 1, sources.length)
+  }
+
+  return { downloaded: sources.length - failed, failed }
+}
\ No newline at end of file
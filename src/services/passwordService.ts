@@ -0,0 +1,21 @@
+import { api } from '@services/api'
+
+type PasswordResetProps = {
+  email: string
+  code: string
+  password: string
+}
+
+async function requestReset(email: string) {
+  await api.post('/password/forgot', { email })
+}
+
+async function verifyCode(email: string, code: string) {
+  await api.post('/password/verify-code', { email, code })
+}
+
+async function reset(passwordReset: PasswordResetProps) {
+  await api.post('/password/reset', passwordReset)
+}
+
+export const passwordService = { requestReset, verifyCode, reset }
@@ -0,0 +1,42 @@
+import { api } from '@services/api'
+import { planSchema, plansSchema, validateResponse } from '@services/validation'
+
+type PlanUpdateProps = {
+  name: string
+  weekdays: number[]
+  exercises: Array<{
+    exercise_id: string
+    series: number
+    repetitions: number
+  }>
+}
+
+async function list() {
+  const response = await api.get('/plans')
+
+  return validateResponse(plansSchema, response.data)
+}
+
+async function getById(planId: string) {
+  const response = await api.get(`/plans/${planId}`)
+
+  return validateResponse(planSchema, response.data)
+}
+
+async function create(name: string) {
+  const response = await api.post('/plans', { name, weekdays: [], exercises: [] })
+
+  return validateResponse(planSchema, response.data)
+}
+
+async function update(planId: string, plan: PlanUpdateProps) {
+  const response = await api.put(`/plans/${planId}`, plan)
+
+  return validateResponse(planSchema, response.data)
+}
+
+async function remove(planId: string) {
+  await api.delete(`/plans/${planId}`)
+}
+
+export const plansService = { list, getById, create, update, remove }
\ No newline at end of file
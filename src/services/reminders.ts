@@ -0,0 +1,147 @@
+import { Platform } from 'react-native'
+import * as Notifications from 'expo-notifications'
+import * as Linking from 'expo-linking'
+
+import { PlanDTO } from '@dtos/PlanDTO'
+import { plansService } from '@services/plansService'
+import { AppError } from '@utils/AppError'
+import { t } from '@i18n/index'
+import { StorageRemindersProps, storageRemindersGet, storageRemindersSave } from '@storage/storageReminders'
+
+const REMINDERS_CHANNEL_ID = 'reminders'
+const WEEKDAY_REMINDER_PREFIX = 'weekday-reminder-'
+const INACTIVITY_NUDGE_ID = 'inactivity-nudge'
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+const MIN_NUDGE_DELAY_IN_MS = 60 * 60 * 1000
+
+export function remindersNotificationHandlerSet() {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowAlert: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false
+    })
+  })
+}
+
+export function notificationUrl(response: Notifications.NotificationResponse | null) {
+  const url = response?.notification.request.content.data?.url
+
+  return typeof url === 'string' ? url : null
+}
+
+async function permissionsEnsure() {
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(REMINDERS_CHANNEL_ID, {
+      name: t('reminders.channelName'),
+      importance: Notifications.AndroidImportance.HIGH
+    })
+  }
+
+  const { granted } = await Notifications.getPermissionsAsync()
+
+  if (granted) return
+
+  const permission = await Notifications.requestPermissionsAsync()
+
+  if (!permission.granted) {
+    throw new AppError(t('reminders.permissionDenied'))
+  }
+}
+
+async function scheduledCancel(shouldCancel: (identifier: string) => boolean) {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync()
+
+  await Promise.all(scheduled
+    .filter(({ identifier }) => shouldCancel(identifier))
+    .map(({ identifier }) => Notifications.cancelScheduledNotificationAsync(identifier))
+  )
+}
+
+async function weekdayRemindersSchedule(reminders: StorageRemindersProps, plans: PlanDTO[]) {
+  const [hour, minute] = reminders.time.split(':').map(Number)
+
+  for (const weekday of reminders.weekdays) {
+    const plan = plans.find(({ weekdays, exercises }) => weekdays.includes(weekday) && exercises.length > 0)
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: `${WEEKDAY_REMINDER_PREFIX}${weekday}`,
+      content: {
+        title: plan ? t('reminders.planTitle', { plan: plan.name }) : t('reminders.title'),
+        body: plan ? t('reminders.planBody') : t('reminders.body'),
+        data: { url: Linking.createURL(plan ? `exercise/${plan.exercises[0].exercise_id}` : 'home') }
+      },
+      trigger: {
+        weekday: weekday + 1,
+        hour,
+        minute,
+        repeats: true,
+        channelId: REMINDERS_CHANNEL_ID
+      }
+    })
+  }
+}
+
+export async function remindersSave(reminders: StorageRemindersProps, plans: PlanDTO[]) {
+  if (reminders.isEnabled) {
+    await permissionsEnsure()
+  }
+
+  await scheduledCancel(identifier => identifier.startsWith(WEEKDAY_REMINDER_PREFIX))
+  await storageRemindersSave(reminders)
+
+  if (!reminders.isEnabled) {
+    await scheduledCancel(identifier => identifier === INACTIVITY_NUDGE_ID)
+    return
+  }
+
+  await weekdayRemindersSchedule(reminders, plans)
+}
+
+export async function remindersCancelAll() {
+  await scheduledCancel(identifier => identifier.startsWith(WEEKDAY_REMINDER_PREFIX) || identifier === INACTIVITY_NUDGE_ID)
+}
+
+export async function remindersReschedule() {
+  await remindersCancelAll()
+
+  const reminders = await storageRemindersGet()
+
+  if (!reminders.isEnabled) return
+
+  const { granted } = await Notifications.getPermissionsAsync()
+
+  if (!granted) return
+
+  const plans = await plansService.list().catch(() => [])
+
+  await weekdayRemindersSchedule(reminders, plans)
+}
+
+export async function inactivityNudgeSchedule(lastTrainedAt: Date | null) {
+  const { isEnabled, inactivityDays } = await storageRemindersGet()
+
+  await scheduledCancel(identifier => identifier === INACTIVITY_NUDGE_ID)
+
+  if (!isEnabled || !inactivityDays || !lastTrainedAt) return
+
+  const { granted } = await Notifications.getPermissionsAsync()
+
+  if (!granted) return
+
+  const triggerAt = Math.max(lastTrainedAt.getTime() + inactivityDays * DAY_IN_MS, Date.now() + MIN_NUDGE_DELAY_IN_MS)
+  const daysWithoutTraining = Math.floor((triggerAt - lastTrainedAt.getTime()) / DAY_IN_MS)
+
+  await Notifications.scheduleNotificationAsync({
+    identifier: INACTIVITY_NUDGE_ID,
+    content: {
+      title: t('reminders.inactivityTitle', { count: daysWithoutTraining }),
+      body: t('reminders.inactivityBody'),
+      data: { url: Linking.createURL('home') }
+    },
+    trigger: {
+      date: triggerAt,
+      channelId: REMINDERS_CHANNEL_ID
+    }
+  })
+}
\ No newline at end of file
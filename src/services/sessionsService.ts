@@ -0,0 +1,17 @@
+import { api } from '@services/api'
+import { sessionSchema, validateResponse } from '@services/validation'
+import { SocialProvider } from '@dtos/SessionDTO'
+
+async function create(email: string, password: string) {
+  const response = await api.post('/sessions', { email, password })
+
+  return validateResponse(sessionSchema, response.data)
+}
+
+async function createWithProvider(provider: SocialProvider, idToken: string) {
+  const response = await api.post('/sessions/social', { provider, id_token: idToken })
+
+  return validateResponse(sessionSchema, response.data)
+}
+
+export const sessionsService = { create, createWithProvider }
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { api } from '@services/api'
+import { ImageCacheSource } from '@services/imageCache'
+import { WEB_URL } from '@utils/environment'
+
+function buildUrl(path: string, file: string) {
+  return `${api.defaults.baseURL}/${path}/${file.replace(/^\//, '')}`
+}
+
+export function exerciseThumbUrl(thumb: string) {
+  return buildUrl('exercise/thumb', thumb)
+}
+
+export function exerciseDemoUrl(demo: string) {
+  return buildUrl('exercise/demo', demo)
+}
+
+export function avatarUrl(avatar: string) {
+  return buildUrl('avatar', avatar)
+}
+
+export function exerciseThumbSource(thumb: string, version: string): ImageCacheSource {
+  return { key: `thumb/${thumb}`, url: exerciseThumbUrl(thumb), version }
+}
+
+export function exerciseDemoSource(demo: string, version: string): ImageCacheSource {
+  return { key: `demo/${demo}`, url: exerciseDemoUrl(demo), version }
+}
+
+export function exerciseShareUrl(exerciseId: string) {
+  return `${WEB_URL}/exercise/${exerciseId}`
+}
\ No newline at end of file
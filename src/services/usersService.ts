@@ -0,0 +1,50 @@
+import { api } from '@services/api'
+import { userSchema, validateResponse } from '@services/validation'
+import { SocialProvider } from '@dtos/SessionDTO'
+
+type UserCreateProps = {
+  name: string
+  email: string
+  password: string
+}
+
+type UserProfileUpdateProps = {
+  name: string
+  old_password?: string
+  password?: string
+}
+
+async function create(user: UserCreateProps) {
+  await api.post('/users', user)
+}
+
+async function updateProfile(profile: UserProfileUpdateProps) {
+  await api.put('/users', profile)
+}
+
+async function updateAvatar(form: FormData, onProgress?: (progress: number) => void) {
+  const response = await api.patch('/users/avatar', form, {
+    headers: {
+      'Content-Type': 'multipart/form-data'
+    },
+    onUploadProgress: ({ progress }) => {
+      if (onProgress && progress !== undefined) onProgress(progress)
+    }
+  })
+
+  return validateResponse(userSchema, response.data)
+}
+
+async function removeAvatar() {
+  await api.delete('/users/avatar')
+}
+
+async function linkIdentity(provider: SocialProvider, idToken: string) {
+  await api.post('/users/identities', { provider, id_token: idToken })
+}
+
+async function remove(password: string) {
+  await api.delete('/users', { data: { password } })
+}
+
+export const usersService = { create, updateProfile, updateAvatar, removeAvatar, linkIdentity, remove }
\ No newline at end of file
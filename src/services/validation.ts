@@ -0,0 +1,88 @@
+import * as yup from 'yup'
+
+import { AppError } from '@utils/AppError'
+import { ExerciseDTO } from '@dtos/ExerciseDTO'
+import { ExerciseSetDTO } from '@dtos/ExerciseSetDTO'
+import { HistoryDTO } from '@dtos/HistoryDTO'
+import { HistoryByDayDTO } from '@dtos/HistoryByDayDTO'
+import { UserDTO } from '@dtos/UserDTO'
+import { SessionDTO } from '@dtos/SessionDTO'
+import { PlanDTO } from '@dtos/PlanDTO'
+import { PlanExerciseDTO } from '@dtos/PlanExerciseDTO'
+import { t } from '@i18n/index'
+
+export const groupsSchema = yup.array(yup.string().required()).required()
+
+export const exerciseSchema: yup.ObjectSchema<ExerciseDTO> = yup.object({
+  id: yup.string().required(),
+  demo: yup.string().defined(),
+  group: yup.string().defined(),
+  name: yup.string().defined(),
+  repetitions: yup.number().required(),
+  series: yup.number().required(),
+  thumb: yup.string().defined(),
+  updated_at: yup.string().defined()
+})
+
+export const exercisesSchema = yup.array(exerciseSchema).required()
+
+const exerciseSetSchema: yup.ObjectSchema<ExerciseSetDTO> = yup.object({
+  repetitions: yup.number().required(),
+  load: yup.number().required()
+})
+
+const historySchema: yup.ObjectSchema<HistoryDTO> = yup.object({
+  id: yup.string().required(),
+  name: yup.string().defined(),
+  group: yup.string().defined(),
+  hour: yup.string().defined(),
+  created_at: yup.string().defined(),
+  sets: yup.array(exerciseSetSchema).optional()
+})
+
+const historyDaySchema: yup.ObjectSchema<HistoryByDayDTO> = yup.object({
+  title: yup.string().defined(),
+  data: yup.array(historySchema).required()
+})
+
+export const historyByDaySchema = yup.array(historyDaySchema).required()
+
+export const userSchema: yup.ObjectSchema<UserDTO> = yup.object({
+  id: yup.string().required(),
+  name: yup.string().defined(),
+  email: yup.string().defined(),
+  avatar: yup.string().nullable().default(null)
+})
+
+export const sessionSchema: yup.ObjectSchema<SessionDTO> = yup.object({
+  user: userSchema.required(),
+  token: yup.string().required(),
+  refresh_token: yup.string().required()
+})
+
+const planExerciseSchema: yup.ObjectSchema<PlanExerciseDTO> = yup.object({
+  exercise_id: yup.string().required(),
+  name: yup.string().defined(),
+  group: yup.string().defined(),
+  thumb: yup.string().defined(),
+  series: yup.number().required(),
+  repetitions: yup.number().required(),
+  updated_at: yup.string().defined()
+})
+
+export const planSchema: yup.ObjectSchema<PlanDTO> = yup.object({
+  id: yup.string().required(),
+  name: yup.string().defined(),
+  weekdays: yup.array(yup.number().required()).required(),
+  exercises: yup.array(planExerciseSchema).required()
+})
+
+export const plansSchema = yup.array(planSchema).required()
+
+export function validateResponse<S extends yup.Schema>(schema: S, data: unknown): yup.InferType<S> {
+  try {
+    return schema.validateSync(data)
+  } catch {
+    throw new AppError(t('errors.unexpectedResponse'))
+  }
+}
\ No newline at end of file
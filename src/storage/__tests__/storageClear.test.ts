@@ -0,0 +1,56 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import * as SecureStore from 'expo-secure-store'
+
+import { storageAccountClear } from '@storage/storageClear'
+import { ACCOUNTS_STORAGE, FAVORITES_STORAGE, GROUPS_STORAGE, HISTORY_OUTBOX_STORAGE, USER_STORAGE } from '@storage/storageConfig'
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(),
+  setItemAsync: jest.fn(),
+  deleteItemAsync: jest.fn()
+}))
+
+const ACCOUNT_A = { id: 'a', name: 'A', email: 'a@email.com', avatar: '' }
+const ACCOUNT_B = { id: 'b', name: 'B', email: 'b@email.com', avatar: '' }
+
+describe('storageAccountClear', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    await AsyncStorage.clear()
+
+    await AsyncStorage.multiSet([
+      [USER_STORAGE, JSON.stringify(ACCOUNT_A)],
+      [ACCOUNTS_STORAGE, JSON.stringify([ACCOUNT_A, ACCOUNT_B])],
+      [GROUPS_STORAGE, JSON.stringify(['costas'])],
+      [`${HISTORY_OUTBOX_STORAGE}:a`, '[]'],
+      [`${FAVORITES_STORAGE}:a`, '[]'],
+      [`${HISTORY_OUTBOX_STORAGE}:b`, JSON.stringify([{ id: 'pending' }])],
+      [`${FAVORITES_STORAGE}:b`, JSON.stringify(['1'])]
+    ])
+  })
+
+  it('removes only the deleted account data while other accounts remain', async () => {
+    const accounts = await storageAccountClear('a')
+
+    expect(accounts).toEqual([ACCOUNT_B])
+    expect(SecureStore.deleteItemAsync).toHaveBeenCalledTimes(1)
+    expect(SecureStore.deleteItemAsync).toHaveBeenCalledWith('ignitegym.token.a')
+    expect(await AsyncStorage.getAllKeys()).toEqual(expect.arrayContaining([
+      ACCOUNTS_STORAGE,
+      GROUPS_STORAGE,
+      `${HISTORY_OUTBOX_STORAGE}:b`,
+      `${FAVORITES_STORAGE}:b`
+    ]))
+    expect(await AsyncStorage.getItem(USER_STORAGE)).toBeNull()
+    expect(await AsyncStorage.getItem(`${HISTORY_OUTBOX_STORAGE}:a`)).toBeNull()
+    expect(await AsyncStorage.getItem(`${FAVORITES_STORAGE}:a`)).toBeNull()
+  })
+
+  it('clears the shared data when the last account is deleted', async () => {
+    await storageAccountClear('a')
+    const accounts = await storageAccountClear('b')
+
+    expect(accounts).toEqual([])
+    expect(await AsyncStorage.getAllKeys()).toEqual([])
+  })
+})
\ No newline at end of file
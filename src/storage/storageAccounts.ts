@@ -0,0 +1,72 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { UserDTO } from '@dtos/UserDTO'
+import {
+  ACCOUNTS_STORAGE,
+  FAVORITES_STORAGE,
+  GROUPS_SELECTED_STORAGE,
+  HISTORY_OUTBOX_STORAGE,
+  REMINDERS_STORAGE
+} from '@storage/storageConfig'
+
+const ACCOUNT_SCOPED_STORAGE = [HISTORY_OUTBOX_STORAGE, FAVORITES_STORAGE, GROUPS_SELECTED_STORAGE, REMINDERS_STORAGE]
+
+let activeAccountId: string | null = null
+
+export function storageActiveAccountSet(accountId: string | null) {
+  activeAccountId = accountId
+}
+
+export function storageActiveAccountGet() {
+  return activeAccountId
+}
+
+export function storageAccountKey(key: string, accountId = activeAccountId) {
+  return accountId ? `${key}:${accountId}` : key
+}
+
+export function storageAccountScopedKeys(accountId: string) {
+  return ACCOUNT_SCOPED_STORAGE.map(key => storageAccountKey(key, accountId))
+}
+
+export async function storageAccountsGet() {
+  const storage = await AsyncStorage.getItem(ACCOUNTS_STORAGE)
+
+  const accounts: UserDTO[] = storage ? JSON.parse(storage) : []
+
+  return accounts
+}
+
+export async function storageAccountsSave(account: UserDTO) {
+  const accounts = await storageAccountsGet()
+
+  const accountsUpdated = accounts.some(({ id }) => id === account.id)
+    ? accounts.map(item => item.id === account.id ? account : item)
+    : [...accounts, account]
+
+  await AsyncStorage.setItem(ACCOUNTS_STORAGE, JSON.stringify(accountsUpdated))
+
+  return accountsUpdated
+}
+
+export async function storageAccountsRemove(accountId: string) {
+  const accounts = await storageAccountsGet()
+
+  const accountsUpdated = accounts.filter(({ id }) => id !== accountId)
+
+  await AsyncStorage.setItem(ACCOUNTS_STORAGE, JSON.stringify(accountsUpdated))
+
+  return accountsUpdated
+}
+
+export async function storageAccountMigrate() {
+  if (!activeAccountId) return
+
+  const legacyItems = await AsyncStorage.multiGet(ACCOUNT_SCOPED_STORAGE)
+  const itemsToMigrate = legacyItems.filter(([, value]) => value !== null) as [string, string][]
+
+  if (itemsToMigrate.length === 0) return
+
+  await AsyncStorage.multiSet(itemsToMigrate.map(([key, value]) => [storageAccountKey(key), value]))
+  await AsyncStorage.multiRemove(itemsToMigrate.map(([key]) => key))
+}
\ No newline at end of file
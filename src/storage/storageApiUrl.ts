@@ -0,0 +1,15 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { API_URL_STORAGE } from '@storage/storageConfig'
+
+export async function storageApiUrlSave(url: string) {
+  await AsyncStorage.setItem(API_URL_STORAGE, url)
+}
+
+export async function storageApiUrlGet() {
+  return AsyncStorage.getItem(API_URL_STORAGE)
+}
+
+export async function storageApiUrlRemove() {
+  await AsyncStorage.removeItem(API_URL_STORAGE)
+}
\ No newline at end of file
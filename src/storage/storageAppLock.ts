@@ -0,0 +1,25 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { APP_LOCK_STORAGE } from '@storage/storageConfig'
+
+export type StorageAppLockProps = {
+  isEnabled: boolean
+  timeoutInSeconds: number
+}
+
+const DEFAULT_APP_LOCK: StorageAppLockProps = {
+  isEnabled: false,
+  timeoutInSeconds: 60
+}
+
+export async function storageAppLockSave(appLock: StorageAppLockProps) {
+  await AsyncStorage.setItem(APP_LOCK_STORAGE, JSON.stringify(appLock))
+}
+
+export async function storageAppLockGet() {
+  const storage = await AsyncStorage.getItem(APP_LOCK_STORAGE)
+
+  const appLock: StorageAppLockProps = storage ? { ...DEFAULT_APP_LOCK, ...JSON.parse(storage) } : DEFAULT_APP_LOCK
+
+  return appLock
+}
@@ -1,24 +1,51 @@
 import AsyncStorage from '@react-native-async-storage/async-storage'
+import * as SecureStore from 'expo-secure-store'
 
-import { AUTH_TOKEN_STORAGE } from '@storage/storageConfig'
+import { AUTH_TOKEN_SECURE_STORAGE, AUTH_TOKEN_STORAGE } from '@storage/storageConfig'
+import { storageActiveAccountGet } from '@storage/storageAccounts'
 
 type StorageAuthTokenProps = {
   token: string
   refresh_token: string
 }
 
-export async function storageAuthTokenSave({ token, refresh_token }: StorageAuthTokenProps) {
-  await AsyncStorage.setItem(AUTH_TOKEN_STORAGE, JSON.stringify({ token, refresh_token }))
+function storageAuthTokenKey(accountId = storageActiveAccountGet()) {
+  return accountId ? `${AUTH_TOKEN_SECURE_STORAGE}.${accountId}` : AUTH_TOKEN_SECURE_STORAGE
 }
 
-export async function storageAuthTokenGet() {
-  const response = await AsyncStorage.getItem(AUTH_TOKEN_STORAGE)
+export async function storageAuthTokenSave({ token, refresh_token }: StorageAuthTokenProps, accountId = storageActiveAccountGet()) {
+  await SecureStore.setItemAsync(storageAuthTokenKey(accountId), JSON.stringify({ token, refresh_token }))
+}
+
+async function storageAuthTokenMigrate() {
+  if (!storageActiveAccountGet()) return null
+
+  const legacy = await SecureStore.getItemAsync(AUTH_TOKEN_SECURE_STORAGE) ?? await AsyncStorage.getItem(AUTH_TOKEN_STORAGE)
+
+  if (!legacy) return null
+
+  await SecureStore.setItemAsync(storageAuthTokenKey(), legacy)
+  await SecureStore.deleteItemAsync(AUTH_TOKEN_SECURE_STORAGE)
+  await AsyncStorage.removeItem(AUTH_TOKEN_STORAGE)
+
+  return legacy
+}
+
+export async function storageAuthTokenGet(accountId = storageActiveAccountGet()) {
+  const response = await SecureStore.getItemAsync(storageAuthTokenKey(accountId)) ?? await storageAuthTokenMigrate()
 
   const { token, refresh_token }: StorageAuthTokenProps = response ? JSON.parse(response) : {}
 
   return { token, refresh_token }
 }
 
-export async function storageAuthTokenRemove() {
+export async function storageAuthTokenRemoveAll(accountIds: string[]) {
+  const keys = [AUTH_TOKEN_SECURE_STORAGE, ...accountIds.map(accountId => `${AUTH_TOKEN_SECURE_STORAGE}.${accountId}`)]
+
+  await Promise.all(keys.map(key => SecureStore.deleteItemAsync(key)))
+}
+
+export async function storageAuthTokenRemove(accountId = storageActiveAccountGet()) {
+  await SecureStore.deleteItemAsync(storageAuthTokenKey(accountId))
   await AsyncStorage.removeItem(AUTH_TOKEN_STORAGE)
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { ExerciseDTO } from '@dtos/ExerciseDTO'
+import { GROUPS_STORAGE, EXERCISES_BY_GROUP_STORAGE, EXERCISE_STORAGE } from '@storage/storageConfig'
+
+export type StorageCatalogEntry<T> = {
+  data: T
+  synced_at: string
+}
+
+type StorageCatalogRecord<T> = Record<string, StorageCatalogEntry<T>>
+
+function createEntry<T>(data: T): StorageCatalogEntry<T> {
+  return { data, synced_at: new Date().toISOString() }
+}
+
+async function storageRecordGet<T>(key: string) {
+  const storage = await AsyncStorage.getItem(key)
+
+  const record: StorageCatalogRecord<T> = storage ? JSON.parse(storage) : {}
+
+  return record
+}
+
+export async function storageGroupsSave(groups: string[]) {
+  const entry = createEntry(groups)
+
+  await AsyncStorage.setItem(GROUPS_STORAGE, JSON.stringify(entry))
+
+  return entry
+}
+
+export async function storageGroupsGet() {
+  const storage = await AsyncStorage.getItem(GROUPS_STORAGE)
+
+  const entry: StorageCatalogEntry<string[]> | null = storage ? JSON.parse(storage) : null
+
+  return entry
+}
+
+export async function storageExercisesByGroupSave(group: string, exercises: ExerciseDTO[]) {
+  const entry = createEntry(exercises)
+
+  const record = await storageRecordGet<ExerciseDTO[]>(EXERCISES_BY_GROUP_STORAGE)
+  record[group.toLocaleLowerCase()] = entry
+  await AsyncStorage.setItem(EXERCISES_BY_GROUP_STORAGE, JSON.stringify(record))
+
+  const details = await storageRecordGet<ExerciseDTO>(EXERCISE_STORAGE)
+  const staleDetails = exercises.filter(exercise => (
+    details[exercise.id] && details[exercise.id].data.updated_at !== exercise.updated_at
+  ))
+
+  if (staleDetails.length > 0) {
+    staleDetails.forEach(exercise => delete details[exercise.id])
+    await AsyncStorage.setItem(EXERCISE_STORAGE, JSON.stringify(details))
+  }
+
+  return entry
+}
+
+export async function storageExercisesByGroupGet(group: string) {
+  const record = await storageRecordGet<ExerciseDTO[]>(EXERCISES_BY_GROUP_STORAGE)
+
+  return record[group.toLocaleLowerCase()] ?? null
+}
+
+export async function storageExerciseSave(exercise: ExerciseDTO) {
+  const entry = createEntry(exercise)
+
+  const record = await storageRecordGet<ExerciseDTO>(EXERCISE_STORAGE)
+  record[exercise.id] = entry
+  await AsyncStorage.setItem(EXERCISE_STORAGE, JSON.stringify(record))
+
+  return entry
+}
+
+export async function storageExercisesSave(exercises: ExerciseDTO[]) {
+  const record = await storageRecordGet<ExerciseDTO>(EXERCISE_STORAGE)
+
+  exercises.forEach(exercise => {
+    record[exercise.id] = createEntry(exercise)
+  })
+
+  await AsyncStorage.setItem(EXERCISE_STORAGE, JSON.stringify(record))
+}
+
+export async function storageExerciseGet(exerciseId: string) {
+  const record = await storageRecordGet<ExerciseDTO>(EXERCISE_STORAGE)
+
+  return record[exerciseId] ?? null
+}
\ No newline at end of file
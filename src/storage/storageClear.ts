@@ -0,0 +1,23 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { STORAGE_PREFIX, USER_STORAGE } from '@storage/storageConfig'
+import { storageAccountScopedKeys, storageAccountsGet, storageAccountsRemove } from '@storage/storageAccounts'
+import { storageAuthTokenRemove, storageAuthTokenRemoveAll } from '@storage/storageAuthToken'
+
+export async function storageAccountClear(accountId: string | null) {
+  await storageAuthTokenRemove(accountId)
+
+  const accounts = accountId ? await storageAccountsRemove(accountId) : await storageAccountsGet()
+
+  await AsyncStorage.multiRemove([USER_STORAGE, ...(accountId ? storageAccountScopedKeys(accountId) : [])])
+
+  if (accounts.length > 0) return accounts
+
+  await storageAuthTokenRemoveAll([])
+
+  const keys = await AsyncStorage.getAllKeys()
+
+  await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(STORAGE_PREFIX)))
+
+  return accounts
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { COLOR_SCHEME_STORAGE } from '@storage/storageConfig'
+import { ColorScheme, isColorScheme } from '@theme/index'
+
+export async function storageColorSchemeSave(colorScheme: ColorScheme | null) {
+  if (!colorScheme) {
+    await AsyncStorage.removeItem(COLOR_SCHEME_STORAGE)
+    return
+  }
+
+  await AsyncStorage.setItem(COLOR_SCHEME_STORAGE, colorScheme)
+}
+
+export async function storageColorSchemeGet() {
+  const storage = await AsyncStorage.getItem(COLOR_SCHEME_STORAGE)
+
+  return isColorScheme(storage) ? storage : null
+}
\ No newline at end of file
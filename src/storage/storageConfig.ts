@@ -1,4 +1,39 @@
+const STORAGE_PREFIX = '@ignitegym:'
 const USER_STORAGE = '@ignitegym:user'
+const ACCOUNTS_STORAGE = '@ignitegym:accounts'
 const AUTH_TOKEN_STORAGE = '@ignitegym:token'
+const AUTH_TOKEN_SECURE_STORAGE = 'ignitegym.token'
+const GROUPS_STORAGE = '@ignitegym:groups'
+const EXERCISES_BY_GROUP_STORAGE = '@ignitegym:exercises-by-group'
+const EXERCISE_STORAGE = '@ignitegym:exercise'
+const HISTORY_OUTBOX_STORAGE = '@ignitegym:history-outbox'
+const REST_DURATION_STORAGE = '@ignitegym:rest-duration'
+const GROUPS_SELECTED_STORAGE = '@ignitegym:groups-selected'
+const FAVORITES_STORAGE = '@ignitegym:favorites'
+const API_URL_STORAGE = '@ignitegym:api-url'
+const APP_LOCK_STORAGE = '@ignitegym:app-lock'
+const IMAGE_CACHE_STORAGE = '@ignitegym:image-cache'
+const REMINDERS_STORAGE = '@ignitegym:reminders'
+const LOCALE_STORAGE = '@ignitegym:locale'
+const COLOR_SCHEME_STORAGE = '@ignitegym:color-scheme'
 
-export { USER_STORAGE, AUTH_TOKEN_STORAGE }
\ No newline at end of file
+export {
+  STORAGE_PREFIX,
+  USER_STORAGE,
+  ACCOUNTS_STORAGE,
+  AUTH_TOKEN_STORAGE,
+  AUTH_TOKEN_SECURE_STORAGE,
+  GROUPS_STORAGE,
+  EXERCISES_BY_GROUP_STORAGE,
+  EXERCISE_STORAGE,
+  HISTORY_OUTBOX_STORAGE,
+  REST_DURATION_STORAGE,
+  GROUPS_SELECTED_STORAGE,
+  FAVORITES_STORAGE,
+  API_URL_STORAGE,
+  APP_LOCK_STORAGE,
+  IMAGE_CACHE_STORAGE,
+  REMINDERS_STORAGE,
+  LOCALE_STORAGE,
+  COLOR_SCHEME_STORAGE
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { ExerciseDTO } from '@dtos/ExerciseDTO'
+import { FAVORITES_STORAGE } from '@storage/storageConfig'
+import { storageAccountKey } from '@storage/storageAccounts'
+
+export type StorageFavoritesProps = {
+  exercises: ExerciseDTO[]
+  pending: Record<string, 'add' | 'remove'>
+}
+
+export async function storageFavoritesSave(favorites: StorageFavoritesProps) {
+  await AsyncStorage.setItem(storageAccountKey(FAVORITES_STORAGE), JSON.stringify(favorites))
+}
+
+export async function storageFavoritesGet() {
+  const storage = await AsyncStorage.getItem(storageAccountKey(FAVORITES_STORAGE))
+
+  const favorites: StorageFavoritesProps = storage ? JSON.parse(storage) : { exercises: [], pending: {} }
+
+  return favorites
+}
\ No newline at end of file
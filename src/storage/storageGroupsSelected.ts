@@ -0,0 +1,16 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { GROUPS_SELECTED_STORAGE } from '@storage/storageConfig'
+import { storageAccountKey } from '@storage/storageAccounts'
+
+export async function storageGroupsSelectedSave(groups: string[]) {
+  await AsyncStorage.setItem(storageAccountKey(GROUPS_SELECTED_STORAGE), JSON.stringify(groups))
+}
+
+export async function storageGroupsSelectedGet() {
+  const storage = await AsyncStorage.getItem(storageAccountKey(GROUPS_SELECTED_STORAGE))
+
+  const groups: string[] = storage ? JSON.parse(storage) : []
+
+  return groups
+}
\ No newline at end of file
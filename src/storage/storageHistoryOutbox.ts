@@ -0,0 +1,36 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { ExerciseSetDTO } from '@dtos/ExerciseSetDTO'
+import { HISTORY_OUTBOX_STORAGE } from '@storage/storageConfig'
+import { storageAccountKey, storageActiveAccountGet } from '@storage/storageAccounts'
+
+export type StorageHistoryOutboxItem = {
+  id: string
+  exercise_id: string
+  name: string
+  group: string
+  created_at: string
+  sets?: ExerciseSetDTO[]
+}
+
+export async function storageHistoryOutboxGet(accountId = storageActiveAccountGet()) {
+  const storage = await AsyncStorage.getItem(storageAccountKey(HISTORY_OUTBOX_STORAGE, accountId))
+
+  const items: StorageHistoryOutboxItem[] = storage ? JSON.parse(storage) : []
+
+  return items
+}
+
+export async function storageHistoryOutboxAdd(item: StorageHistoryOutboxItem) {
+  const items = await storageHistoryOutboxGet()
+
+  if (items.some(({ id }) => id === item.id)) return
+
+  await AsyncStorage.setItem(storageAccountKey(HISTORY_OUTBOX_STORAGE), JSON.stringify([...items, item]))
+}
+
+export async function storageHistoryOutboxRemove(itemId: string, accountId = storageActiveAccountGet()) {
+  const items = await storageHistoryOutboxGet(accountId)
+
+  await AsyncStorage.setItem(storageAccountKey(HISTORY_OUTBOX_STORAGE, accountId), JSON.stringify(items.filter(({ id }) => id !== itemId)))
+}
\ No newline at end of file
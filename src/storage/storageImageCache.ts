@@ -0,0 +1,24 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { IMAGE_CACHE_STORAGE } from '@storage/storageConfig'
+
+export type StorageImageCacheEntry = {
+  file: string
+  version: string
+  size: number
+  accessed_at: number
+}
+
+export type StorageImageCacheIndex = Record<string, StorageImageCacheEntry>
+
+export async function storageImageCacheSave(index: StorageImageCacheIndex) {
+  await AsyncStorage.setItem(IMAGE_CACHE_STORAGE, JSON.stringify(index))
+}
+
+export async function storageImageCacheGet() {
+  const storage = await AsyncStorage.getItem(IMAGE_CACHE_STORAGE)
+
+  const index: StorageImageCacheIndex = storage ? JSON.parse(storage) : {}
+
+  return index
+}
\ No newline at end of file
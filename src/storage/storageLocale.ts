@@ -0,0 +1,19 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { LOCALE_STORAGE } from '@storage/storageConfig'
+import { Locale, isLocale } from '@i18n/index'
+
+export async function storageLocaleSave(locale: Locale | null) {
+  if (!locale) {
+    await AsyncStorage.removeItem(LOCALE_STORAGE)
+    return
+  }
+
+  await AsyncStorage.setItem(LOCALE_STORAGE, locale)
+}
+
+export async function storageLocaleGet() {
+  const storage = await AsyncStorage.getItem(LOCALE_STORAGE)
+
+  return isLocale(storage) ? storage : null
+}
\ No newline at end of file
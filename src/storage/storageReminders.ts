@@ -0,0 +1,30 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { REMINDERS_STORAGE } from '@storage/storageConfig'
+import { storageAccountKey } from '@storage/storageAccounts'
+
+export type StorageRemindersProps = {
+  isEnabled: boolean
+  weekdays: number[]
+  time: string
+  inactivityDays: number | null
+}
+
+const DEFAULT_REMINDERS: StorageRemindersProps = {
+  isEnabled: false,
+  weekdays: [1, 3, 5],
+  time: '18:00',
+  inactivityDays: null
+}
+
+export async function storageRemindersSave(reminders: StorageRemindersProps) {
+  await AsyncStorage.setItem(storageAccountKey(REMINDERS_STORAGE), JSON.stringify(reminders))
+}
+
+export async function storageRemindersGet() {
+  const storage = await AsyncStorage.getItem(storageAccountKey(REMINDERS_STORAGE))
+
+  const reminders: StorageRemindersProps = storage ? { ...DEFAULT_REMINDERS, ...JSON.parse(storage) } : DEFAULT_REMINDERS
+
+  return reminders
+}
\ No newline at end of file
@@ -0,0 +1,15 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+import { REST_DURATION_STORAGE } from '@storage/storageConfig'
+
+const DEFAULT_REST_DURATION_IN_SECONDS = 60
+
+export async function storageRestDurationSave(seconds: number) {
+  await AsyncStorage.setItem(REST_DURATION_STORAGE, String(seconds))
+}
+
+export async function storageRestDurationGet() {
+  const storage = await AsyncStorage.getItem(REST_DURATION_STORAGE)
+
+  return storage ? Number(storage) : DEFAULT_REST_DURATION_IN_SECONDS
+}
\ No newline at end of file
@@ -1,38 +1,67 @@
 import { extendTheme } from 'native-base'
 
-export const THEME = extendTheme({
-  colors: {
-    green: {
-      700: '#00875F',
-      500: '#00B37E',
+export type ColorScheme = 'light' | 'dark'
+
+const GRAY: Record<ColorScheme, Record<number, string>> = {
+  dark: {
+    700: '#121214',
+    600: '#202024',
+    500: '#29292E',
+    400: '#323238',
+    300: '#7C7C8A',
+    200: '#C4C4CC',
+    100: '#E1E1E6'
+  },
+  light: {
+    700: '#F4F4F5',
+    600: '#FFFFFF',
+    500: '#E1E1E6',
+    400: '#C4C4CC',
+    300: '#7C7C8A',
+    200: '#484850',
+    100: '#121214'
+  }
+}
+
+function themeCreate(colorScheme: ColorScheme) {
+  return extendTheme({
+    config: {
+      initialColorMode: colorScheme
+    },
+    colors: {
+      green: {
+        700: '#00875F',
+        500: '#00B37E',
+      },
+      gray: GRAY[colorScheme],
+      white: '#FFFFFF',
+      red: {
+        500: '#F75A68'
+      }
+    },
+    fonts: {
+      heading: 'Roboto_700Bold',
+      body: 'Roboto_400Regular',
     },
-    gray: {
-      700: '#121214',
-      600: '#202024',
-      500: '#29292E',
-      400: '#323238',
-      300: '#7C7C8A',
-      200: '#C4C4CC',
-      100: '#E1E1E6'
+    fontSizes: {
+      xs: 12,
+      sm: 14,
+      md: 16,
+      lg: 18,
+      xl: 20,
     },
-    white: '#FFFFFF',
-    red: {
-      500: '#F75A68'
+    sizes: {
+      14: 56,
+      33: 148
     }
-  },
-  fonts: {
-    heading: 'Roboto_700Bold',
-    body: 'Roboto_400Regular',
-  },
-  fontSizes: {
-    xs: 12,
-    sm: 14,
-    md: 16,
-    lg: 18,
-    xl: 20,
-  },
-  sizes: {
-    14: 56,
-    33: 148
-  }
-})
+  })
+}
+
+export const THEMES: Record<ColorScheme, ReturnType<typeof themeCreate>> = {
+  dark: themeCreate('dark'),
+  light: themeCreate('light')
+}
+
+export function isColorScheme(value: unknown): value is ColorScheme {
+  return value === 'light' || value === 'dark'
+}
\ No newline at end of file
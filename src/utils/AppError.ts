@@ -1,7 +1,59 @@
+import { t } from '@i18n/index'
+
+type AppErrorOptions = {
+  status?: number
+  code?: string
+}
+
 export class AppError {
   message: string
+  status?: number
+  code?: string
 
-  constructor(message: string) {
+  constructor(message: string, { status, code }: AppErrorOptions = {}) {
     this.message = message
+    this.status = status
+    this.code = code
+  }
+}
+
+export class NetworkError extends AppError {
+  constructor(message = t('errors.network')) {
+    super(message, { code: 'network' })
+  }
+}
+
+export class TimeoutError extends AppError {
+  constructor(message = t('errors.timeout')) {
+    super(message, { code: 'timeout' })
+  }
+}
+
+export class AuthError extends AppError {
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { status: 401, ...options })
+  }
+}
+
+export class ValidationError extends AppError {
+  fieldErrors: Record<string, string>
+
+  constructor(message: string, fieldErrors: Record<string, string> = {}, options: AppErrorOptions = {}) {
+    super(message, options)
+    this.fieldErrors = fieldErrors
   }
+}
+
+export class ServerError extends AppError {
+  constructor(message = t('errors.server'), options: AppErrorOptions = {}) {
+    super(message, options)
+  }
+}
+
+export function isRetryableError(error: unknown) {
+  return !(error instanceof AppError)
+    || error instanceof NetworkError
+    || error instanceof TimeoutError
+    || error instanceof AuthError
+    || error instanceof ServerError
 }
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { HistoryDTO } from '@dtos/HistoryDTO'
+import {
+  buildHistoryStatistics,
+  filterHistoryByRange,
+  getHeatmap,
+  getStreaks,
+  getTopExercises,
+  getVolumeByGroup,
+  getWorkoutsPerWeek
+} from '@utils/historyStatistics'
+
+function historyItem(created_at: string, overrides: Partial<HistoryDTO> = {}): HistoryDTO {
+  return {
+    id: created_at,
+    name: 'Supino reto',
+    group: 'peito',
+    hour: created_at.slice(11, 16),
+    created_at,
+    ...overrides
+  }
+}
+
+const RANGE = {
+  start: new Date(2026, 9, 5),
+  end: new Date(2026, 9, 18)
+}
+
+describe('historyStatistics', () => {
+  describe('filterHistoryByRange', () => {
+    it('includes the whole first and last day of the range', () => {
+      const items = [
+        historyItem('2026-10-04T23:59:00'),
+        historyItem('2026-10-05T00:00:00'),
+        historyItem('2026-10-18T23:59:00'),
+        historyItem('2026-10-19T00:00:00')
+      ]
+
+      expect(filterHistoryByRange(items, RANGE).map(({ created_at }) => created_at)).toEqual([
+        '2026-10-05T00:00:00',
+        '2026-10-18T23:59:00'
+      ])
+    })
+  })
+
+  describe('getWorkoutsPerWeek', () => {
+    it('counts trained days once per week, starting on Sunday', () => {
+      const items = [
+        historyItem('2026-10-05T08:00:00'),
+        historyItem('2026-10-05T09:00:00'),
+        historyItem('2026-10-07T08:00:00'),
+        historyItem('2026-10-17T08:00:00')
+      ]
+
+      expect(getWorkoutsPerWeek(items, RANGE)).toEqual([
+        { weekStart: '2026-10-04', workouts: 2 },
+        { weekStart: '2026-10-11', workouts: 1 },
+        { weekStart: '2026-10-18', workouts: 0 }
+      ])
+    })
+  })
+
+  describe('getStreaks', () => {
+    it('breaks the streak on a day without training', () => {
+      const items = [
+        historyItem('2026-10-10T08:00:00'),
+        historyItem('2026-10-11T08:00:00'),
+        historyItem('2026-10-12T08:00:00'),
+        historyItem('2026-10-14T08:00:00'),
+        historyItem('2026-10-15T08:00:00')
+      ]
+
+      expect(getStreaks(items, new Date(2026, 9, 15, 20))).toEqual({ current: 2, longest: 3 })
+    })
+
+    it('keeps the current streak until the end of the day after the last workout', () => {
+      const items = [
+        historyItem('2026-10-17T23:30:00'),
+        historyItem('2026-10-18T00:15:00')
+      ]
+
+      expect(getStreaks(items, new Date(2026, 9, 19, 12))).toEqual({ current: 2, longest: 2 })
+      expect(getStreaks(items, new Date(2026, 9, 20, 12))).toEqual({ current: 0, longest: 2 })
+    })
+
+    it('counts several workouts on the same day as one streak day', () => {
+      const items = [
+        historyItem('2026-10-18T08:00:00'),
+        historyItem('2026-10-18T18:00:00')
+      ]
+
+      expect(getStreaks(items, new Date(2026, 9, 18, 20))).toEqual({ current: 1, longest: 1 })
+    })
+  })
+
+  describe('getVolumeByGroup', () => {
+    it('sums sets and load times repetitions per group regardless of case', () => {
+      const items = [
+        historyItem('2026-10-05T08:00:00', { sets: [{ repetitions: 10, load: 20 }, { repetitions: 8, load: 25 }] }),
+        historyItem('2026-10-06T08:00:00', { group: 'Peito' }),
+        historyItem('2026-10-06T09:00:00', { name: 'Remada', group: 'costas', sets: [{ repetitions: 12, load: 30 }] })
+      ]
+
+      expect(getVolumeByGroup(items)).toEqual([
+        { group: 'peito', exercises: 2, sets: 2, volume: 400 },
+        { group: 'costas', exercises: 1, sets: 1, volume: 360 }
+      ])
+    })
+  })
+
+  describe('getTopExercises', () => {
+    it('orders by count, then by name, up to the limit', () => {
+      const items = [
+        historyItem('2026-10-05T08:00:00', { name: 'Remada', group: 'costas' }),
+        historyItem('2026-10-06T08:00:00', { name: 'Crucifixo' }),
+        historyItem('2026-10-07T08:00:00'),
+        historyItem('2026-10-08T08:00:00'),
+        historyItem('2026-10-09T08:00:00', { name: 'Agachamento', group: 'pernas' })
+      ]
+
+      expect(getTopExercises(items, 3)).toEqual([
+        { name: 'Supino reto', group: 'peito', count: 2 },
+        { name: 'Agachamento', group: 'pernas', count: 1 },
+        { name: 'Crucifixo', group: 'peito', count: 1 }
+      ])
+    })
+  })
+
+  describe('getHeatmap', () => {
+    it('has one entry per day including both ends of the range', () => {
+      const heatmap = getHeatmap([historyItem('2026-10-05T08:00:00'), historyItem('2026-10-18T08:00:00')], RANGE)
+
+      expect(heatmap).toHaveLength(14)
+      expect(heatmap[0]).toEqual({ date: '2026-10-05', count: 1 })
+      expect(heatmap[13]).toEqual({ date: '2026-10-18', count: 1 })
+      expect(heatmap.slice(1, 13).every(({ count }) => count === 0)).toBe(true)
+    })
+  })
+
+  describe('buildHistoryStatistics', () => {
+    it('returns empty aggregates for an empty history', () => {
+      const statistics = buildHistoryStatistics([], RANGE, new Date(2026, 9, 18))
+
+      expect(statistics).toEqual(expect.objectContaining({
+        totalExercises: 0,
+        totalWorkouts: 0,
+        streaks: { current: 0, longest: 0 },
+        volumeByGroup: [],
+        topExercises: []
+      }))
+      expect(statistics.workoutsPerWeek.every(({ workouts }) => workouts === 0)).toBe(true)
+      expect(statistics.heatmap.every(({ count }) => count === 0)).toBe(true)
+    })
+
+    it('limits totals to the range but computes streaks from the whole history', () => {
+      const sections = [
+        { title: '19.10.26', data: [historyItem('2026-10-19T08:00:00')] },
+        { title: '18.10.26', data: [historyItem('2026-10-18T08:00:00'), historyItem('2026-10-18T09:00:00', { name: 'Remada', group: 'costas' })] }
+      ]
+
+      const statistics = buildHistoryStatistics(sections, RANGE, new Date(2026, 9, 19, 12))
+
+      expect(statistics.totalExercises).toBe(2)
+      expect(statistics.totalWorkouts).toBe(1)
+      expect(statistics.streaks).toEqual({ current: 2, longest: 2 })
+    })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { Insets } from 'react-native'
+
+export const TOUCH_TARGET_MIN_SIZE = 48
+
+export function touchTargetHitSlop(size: number): Insets {
+  const slop = Math.max(0, (TOUCH_TARGET_MIN_SIZE - size) / 2)
+
+  return { top: slop, bottom: slop, left: slop, right: slop }
+}
\ No newline at end of file
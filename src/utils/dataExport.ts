@@ -0,0 +1,43 @@
+import { UserDTO } from '@dtos/UserDTO'
+import { HistoryByDayDTO } from '@dtos/HistoryByDayDTO'
+import { flattenHistory } from '@utils/historyStatistics'
+
+export type DataExportFormat = 'json' | 'csv'
+
+const DATA_EXPORT_CSV_HEADER = ['usuario', 'email', 'id', 'exercicio', 'grupo', 'data', 'horario', 'series']
+
+function csvField(value: string | number) {
+  const text = String(value)
+
+  return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function buildDataExportJson(user: UserDTO, history: HistoryByDayDTO[]) {
+  return JSON.stringify({
+    exported_at: new Date().toISOString(),
+    profile: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      avatar: user.avatar
+    },
+    history: flattenHistory(history)
+  }, null, 2)
+}
+
+export function buildDataExportCsv(user: UserDTO, history: HistoryByDayDTO[]) {
+  const rows = flattenHistory(history).map(item => [
+    user.name,
+    user.email,
+    item.id,
+    item.name,
+    item.group,
+    item.created_at,
+    item.hour,
+    (item.sets ?? []).map(({ repetitions, load }) => `${repetitions}x${load}kg`).join(' | ')
+  ])
+
+  return [DATA_EXPORT_CSV_HEADER, ...rows]
+    .map(row => row.map(csvField).join(','))
+    .join('\n')
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { Platform } from 'react-native'
+import Constants from 'expo-constants'
+
+export type AppEnvironment = 'development' | 'staging' | 'production'
+
+type EnvironmentExtra = {
+  appEnv?: AppEnvironment
+  apiUrls: Record<AppEnvironment, string>
+  webUrl: string
+  oauth: {
+    issuer: string
+    clientIds: Record<'android' | 'ios' | 'web', string>
+  }
+}
+
+const extra = Constants.expoConfig?.extra as EnvironmentExtra
+
+export const APP_ENV: AppEnvironment = extra.appEnv ?? 'development'
+
+export const API_URLS = extra.apiUrls
+
+export const DEFAULT_API_URL = API_URLS[APP_ENV]
+
+export const IS_DEVELOPER_SETTINGS_ENABLED = APP_ENV !== 'production'
+
+export const WEB_URL = extra.webUrl
+
+export const OAUTH_ISSUER = extra.oauth.issuer
+
+export const OAUTH_CLIENT_ID = Platform.select({
+  android: extra.oauth.clientIds.android,
+  ios: extra.oauth.clientIds.ios,
+  default: extra.oauth.clientIds.web
+})
\ No newline at end of file
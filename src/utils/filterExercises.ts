@@ -0,0 +1,42 @@
+import { ExerciseDTO } from '@dtos/ExerciseDTO'
+
+import { normalizeText } from './normalizeText'
+
+export type ExerciseSort = 'name' | 'series' | 'repetitions'
+
+export type ExerciseRange = {
+  min: number | null
+  max: number | null
+}
+
+export type ExerciseFilters = {
+  search: string
+  groups: string[]
+  series: ExerciseRange
+  repetitions: ExerciseRange
+  sort: ExerciseSort
+}
+
+export const EMPTY_RANGE: ExerciseRange = { min: null, max: null }
+
+function isInRange(value: number, { min, max }: ExerciseRange) {
+  return (min === null || value >= min) && (max === null || value <= max)
+}
+
+export function filterExercises(exercises: ExerciseDTO[], { search, groups, series, repetitions, sort }: ExerciseFilters) {
+  const searchNormalized = normalizeText(search)
+  const groupsNormalized = groups.map(normalizeText)
+
+  return exercises
+    .filter(exercise => (
+      (!searchNormalized || normalizeText(exercise.name).includes(searchNormalized)) &&
+      (groupsNormalized.length === 0 || groupsNormalized.includes(normalizeText(exercise.group))) &&
+      isInRange(exercise.series, series) &&
+      isInRange(exercise.repetitions, repetitions)
+    ))
+    .sort((a, b) => {
+      if (sort === 'name') return a.name.localeCompare(b.name)
+
+      return a[sort] - b[sort] || a.name.localeCompare(b.name)
+    })
+}
\ No newline at end of file
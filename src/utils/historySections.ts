@@ -0,0 +1,76 @@
+import { HistoryByDayDTO } from '@dtos/HistoryByDayDTO'
+import { HistoryDTO } from '@dtos/HistoryDTO'
+
+export type HistoryItemPosition = {
+  title: string
+  index: number
+}
+
+export function findHistoryItem(sections: HistoryByDayDTO[], itemId: string) {
+  for (const section of sections) {
+    const index = section.data.findIndex(({ id }) => id === itemId)
+
+    if (index >= 0) {
+      return { item: section.data[index], position: { title: section.title, index } }
+    }
+  }
+
+  return null
+}
+
+export function removeHistoryItem(sections: HistoryByDayDTO[], itemId: string) {
+  return sections
+    .map(section => ({ ...section, data: section.data.filter(({ id }) => id !== itemId) }))
+    .filter(section => section.data.length > 0)
+}
+
+export function insertHistoryItem(sections: HistoryByDayDTO[], item: HistoryDTO, { title, index }: HistoryItemPosition) {
+  const section = sections.find(section => section.title === title)
+
+  if (!section) {
+    const sectionIndex = sections.findIndex(({ data }) => data[0]?.created_at < item.created_at)
+    const sectionsUpdated = [...sections]
+    sectionsUpdated.splice(sectionIndex < 0 ? sections.length : sectionIndex, 0, { title, data: [item] })
+
+    return sectionsUpdated
+  }
+
+  return sections.map(current => {
+    if (current !== section) return current
+
+    const data = [...current.data]
+    data.splice(Math.min(index, data.length), 0, item)
+
+    return { ...current, data }
+  })
+}
+
+export function replaceHistoryItem(sections: HistoryByDayDTO[], item: HistoryDTO) {
+  return sections.map(section => {
+    if (!section.data.some(({ id }) => id === item.id)) return section
+
+    const data = section.data
+      .map(current => current.id === item.id ? item : current)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+
+    return { ...section, data }
+  })
+}
+
+export function mergeHistorySections(current: HistoryByDayDTO[], next: HistoryByDayDTO[]) {
+  const sections = current.map(section => ({ ...section, data: [...section.data] }))
+
+  next.forEach(section => {
+    const existing = sections.find(({ title }) => title === section.title)
+
+    if (!existing) {
+      sections.push({ ...section, data: [...section.data] })
+      return
+    }
+
+    const ids = new Set(existing.data.map(({ id }) => id))
+    existing.data.push(...section.data.filter(({ id }) => !ids.has(id)))
+  })
+
+  return sections
+}
\ No newline at end of file
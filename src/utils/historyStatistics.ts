@@ -0,0 +1,204 @@
+import { HistoryByDayDTO } from '@dtos/HistoryByDayDTO'
+import { HistoryDTO } from '@dtos/HistoryDTO'
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+
+export type StatisticsRange = {
+  start: Date
+  end: Date
+}
+
+export type WeeklyWorkouts = {
+  weekStart: string
+  workouts: number
+}
+
+export type Streaks = {
+  current: number
+  longest: number
+}
+
+export type GroupVolume = {
+  group: string
+  exercises: number
+  sets: number
+  volume: number
+}
+
+export type ExerciseFrequency = {
+  name: string
+  group: string
+  count: number
+}
+
+export type HeatmapDay = {
+  date: string
+  count: number
+}
+
+export type HistoryStatistics = {
+  totalExercises: number
+  totalWorkouts: number
+  workoutsPerWeek: WeeklyWorkouts[]
+  streaks: Streaks
+  volumeByGroup: GroupVolume[]
+  topExercises: ExerciseFrequency[]
+  heatmap: HeatmapDay[]
+}
+
+function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+function startOfWeek(date: Date) {
+  const day = startOfDay(date)
+  day.setDate(day.getDate() - day.getDay())
+
+  return day
+}
+
+function addDays(date: Date, amount: number) {
+  const result = new Date(date)
+  result.setDate(result.getDate() + amount)
+
+  return result
+}
+
+export function toDayKey(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function flattenHistory(sections: HistoryByDayDTO[]) {
+  return sections.flatMap(section => section.data)
+}
+
+export function filterHistoryByRange(items: HistoryDTO[], { start, end }: StatisticsRange) {
+  const from = startOfDay(start).getTime()
+  const to = startOfDay(end).getTime() + DAY_IN_MS
+
+  return items.filter(item => {
+    const time = new Date(item.created_at).getTime()
+    return time >= from && time < to
+  })
+}
+
+function countByDay(items: HistoryDTO[]) {
+  return items.reduce<Record<string, number>>((days, item) => {
+    const key = toDayKey(new Date(item.created_at))
+    days[key] = (days[key] ?? 0) + 1
+
+    return days
+  }, {})
+}
+
+export function getWorkoutsPerWeek(items: HistoryDTO[], { start, end }: StatisticsRange): WeeklyWorkouts[] {
+  const trainedDays = Object.keys(countByDay(items))
+  const weeks: WeeklyWorkouts[] = []
+
+  for (let week = startOfWeek(start); week <= end; week = addDays(week, 7)) {
+    const weekStart = toDayKey(week)
+    const weekEnd = toDayKey(addDays(week, 6))
+
+    weeks.push({
+      weekStart,
+      workouts: trainedDays.filter(day => day >= weekStart && day <= weekEnd).length
+    })
+  }
+
+  return weeks
+}
+
+export function getStreaks(items: HistoryDTO[], today: Date): Streaks {
+  const trainedDays = new Set(Object.keys(countByDay(items)))
+  const sortedDays = [...trainedDays].sort()
+
+  let longest = 0
+  let running = 0
+  let previous: Date | null = null
+
+  sortedDays.forEach(key => {
+    const [year, month, day] = key.split('-').map(Number)
+    const date = new Date(year, month - 1, day)
+
+    running = previous && toDayKey(addDays(previous, 1)) === key ? running + 1 : 1
+    longest = Math.max(longest, running)
+    previous = date
+  })
+
+  let current = 0
+  let cursor = startOfDay(today)
+
+  if (!trainedDays.has(toDayKey(cursor))) {
+    cursor = addDays(cursor, -1)
+  }
+
+  while (trainedDays.has(toDayKey(cursor))) {
+    current += 1
+    cursor = addDays(cursor, -1)
+  }
+
+  return { current, longest }
+}
+
+export function getVolumeByGroup(items: HistoryDTO[]): GroupVolume[] {
+  const groups = items.reduce<Record<string, GroupVolume>>((result, item) => {
+    const key = item.group.toLocaleLowerCase()
+    const entry = result[key] ?? { group: item.group, exercises: 0, sets: 0, volume: 0 }
+    const sets = item.sets ?? []
+
+    entry.exercises += 1
+    entry.sets += sets.length
+    entry.volume += sets.reduce((total, set) => total + set.repetitions * set.load, 0)
+    result[key] = entry
+
+    return result
+  }, {})
+
+  return Object.values(groups).sort((a, b) => b.exercises - a.exercises || b.volume - a.volume)
+}
+
+export function getTopExercises(items: HistoryDTO[], limit = 5): ExerciseFrequency[] {
+  const exercises = items.reduce<Record<string, ExerciseFrequency>>((result, item) => {
+    const key = `${item.group}:${item.name}`.toLocaleLowerCase()
+    const entry = result[key] ?? { name: item.name, group: item.group, count: 0 }
+
+    entry.count += 1
+    result[key] = entry
+
+    return result
+  }, {})
+
+  return Object.values(exercises)
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, limit)
+}
+
+export function getHeatmap(items: HistoryDTO[], { start, end }: StatisticsRange): HeatmapDay[] {
+  const days = countByDay(items)
+  const heatmap: HeatmapDay[] = []
+
+  for (let day = startOfDay(start); day <= end; day = addDays(day, 1)) {
+    const date = toDayKey(day)
+    heatmap.push({ date, count: days[date] ?? 0 })
+  }
+
+  return heatmap
+}
+
+export function buildHistoryStatistics(sections: HistoryByDayDTO[], range: StatisticsRange, today = new Date()): HistoryStatistics {
+  const allItems = flattenHistory(sections)
+  const items = filterHistoryByRange(allItems, range)
+
+  return {
+    totalExercises: items.length,
+    totalWorkouts: Object.keys(countByDay(items)).length,
+    workoutsPerWeek: getWorkoutsPerWeek(items, range),
+    streaks: getStreaks(allItems, today),
+    volumeByGroup: getVolumeByGroup(items),
+    topExercises: getTopExercises(items),
+    heatmap: getHeatmap(items, range)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+function base64UrlDecode(value: string) {
+  let output = ''
+  let buffer = 0
+  let bits = 0
+
+  for (const char of value.replace(/-/g, '+').replace(/_/g, '/')) {
+    const index = BASE64_CHARS.indexOf(char)
+
+    if (index < 0) continue
+
+    buffer = ((buffer << 6) | index) & 0x3fff
+    bits += 6
+
+    if (bits >= 8) {
+      bits -= 8
+      output += String.fromCharCode((buffer >> bits) & 0xff)
+    }
+  }
+
+  return output
+}
+
+export function getTokenExpiresAt(token: string) {
+  try {
+    const [, payload] = token.split('.')
+    const { exp } = JSON.parse(base64UrlDecode(payload))
+
+    return typeof exp === 'number' ? exp * 1000 : null
+  } catch {
+    return null
+  }
+}
+
+export function isTokenExpiring(token: string, marginInMs: number) {
+  const expiresAt = getTokenExpiresAt(token)
+
+  return expiresAt !== null && expiresAt - Date.now() <= marginInMs
+}
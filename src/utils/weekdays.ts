@@ -0,0 +1,24 @@
+import { TranslationKey, t } from '@i18n/index'
+
+const WEEKDAY_KEYS: TranslationKey[] = [
+  'weekdays.sunday',
+  'weekdays.monday',
+  'weekdays.tuesday',
+  'weekdays.wednesday',
+  'weekdays.thursday',
+  'weekdays.friday',
+  'weekdays.saturday'
+]
+
+export const WEEKDAYS = WEEKDAY_KEYS.map((_, weekday) => weekday)
+
+export function weekdayName(weekday: number) {
+  return t(WEEKDAY_KEYS[weekday])
+}
+
+export function formatWeekdays(weekdays: number[]) {
+  return [...weekdays]
+    .sort((a, b) => a - b)
+    .map(weekdayName)
+    .join(', ')
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { ReactElement } from 'react'
+import { NativeBaseProvider } from 'native-base'
+import { render } from '@testing-library/react-native'
+
+import { ColorScheme, THEMES } from '@theme/index'
+import { LocaleContext } from '@contexts/LocaleContext'
+import { ColorSchemeContext } from '@contexts/ColorSchemeContext'
+import { formatDate, i18nLocaleSet, t } from '@i18n/index'
+
+const INITIAL_WINDOW_METRICS = {
+  frame: { x: 0, y: 0, width: 0, height: 0 },
+  insets: { top: 0, left: 0, right: 0, bottom: 0 }
+}
+
+type RenderOptions = {
+  colorScheme?: ColorScheme
+}
+
+export function renderWithProviders(element: ReactElement, { colorScheme = 'dark' }: RenderOptions = {}) {
+  i18nLocaleSet('en')
+
+  return render(
+    <LocaleContext.Provider value={{ locale: 'en', localeSelected: null, isLoadingLocale: false, t, formatDate, updateLocale: jest.fn() }}>
+      <ColorSchemeContext.Provider value={{ colorScheme, colorSchemeSelected: colorScheme, isLoadingColorScheme: false, updateColorScheme: jest.fn() }}>
+        <NativeBaseProvider theme={THEMES[colorScheme]} initialWindowMetrics={INITIAL_WINDOW_METRICS}>
+          {element}
+        </NativeBaseProvider>
+      </ColorSchemeContext.Provider>
+    </LocaleContext.Provider>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,5 @@
+import { View } from 'react-native'
+
+export default function SvgMock() {
+  return <View />
+}
\ No newline at end of file